@@ -0,0 +1,205 @@
+import { performance } from 'perf_hooks';
+import { logger } from '../logger';
+import { config } from '../config';
+import { RideRequest, RidePool, PoolMember, Tariff, VehicleClass } from '../models/types';
+import { matchingEngine, PoolCandidate } from '../services/matchingEngine';
+import { encodeGeohash, geohashesWithinRadius } from '../utils/geohash';
+
+/**
+ * MATCHING LATENCY BENCHMARK
+ *
+ * Builds N synthetic open pools around the NYC airports and measures
+ * per-request matching latency:
+ * - full scan: every open pool is scored (previous behaviour, minus the
+ *   50-pool cap)
+ * - geohash pre-filter: only pools with a member in the request's pickup
+ *   and dropoff covering cells are scored (same rule as
+ *   RideService.getAvailablePools, with an in-memory index in place of
+ *   the indexed SQL lookup)
+ *
+ * Runs fully in memory; no database or Redis connection is needed.
+ * Usage: npm run benchmark:matching -- [pools=10000] [requests=100]
+ */
+
+const AIRPORTS = [
+  { lat: 40.6413, lon: -73.7781 }, // JFK
+  { lat: 40.7769, lon: -73.874 }, // LaGuardia
+  { lat: 40.6895, lon: -74.1745 }, // Newark
+];
+
+let sequence = 0;
+
+function jitter(value: number, spread: number): number {
+  return value + (Math.random() - 0.5) * spread;
+}
+
+function syntheticRequest(): RideRequest {
+  const airport = AIRPORTS[Math.floor(Math.random() * AIRPORTS.length)];
+  const now = new Date();
+  sequence++;
+
+  return {
+    id: `req-${sequence}`,
+    user_id: `user-${sequence}`,
+    pickup_location_id: 'airport',
+    dropoff_location_id: 'city',
+    pickup_latitude: jitter(airport.lat, 0.02),
+    pickup_longitude: jitter(airport.lon, 0.02),
+    dropoff_latitude: jitter(40.75, 0.3),
+    dropoff_longitude: jitter(-73.95, 0.3),
+    passenger_count: 1,
+    luggage_count: 1,
+    max_detour_km: 5,
+    status: 'matched',
+    requested_at: now,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+function syntheticPool(index: number): PoolCandidate {
+  const now = new Date();
+  const memberCount = 1 + Math.floor(Math.random() * 2);
+  const requests = Array.from({ length: memberCount }, syntheticRequest);
+
+  const pool: RidePool = {
+    id: `pool-${index}`,
+    pool_code: `POOL${index}`,
+    status: 'forming',
+    current_passenger_count: memberCount,
+    current_luggage_count: memberCount,
+    max_passengers: 4,
+    max_luggage: 8,
+    vehicle_class: 'sedan',
+    created_at: now,
+    updated_at: now,
+  };
+
+  const members: PoolMember[] = requests.map((r, i) => ({
+    id: `member-${r.id}`,
+    pool_id: pool.id,
+    ride_request_id: r.id,
+    pickup_sequence: i + 1,
+    dropoff_sequence: memberCount + i + 1,
+    detour_distance_km: 0,
+    price: 0,
+    joined_at: now,
+  }));
+
+  return { pool, existingMembers: members, existingRequests: requests };
+}
+
+// Synthetic pools are all sedans, priced at the config rates
+function syntheticTariffs(): Map<VehicleClass, Tariff> {
+  const pricing = config.ridePooling;
+  const tariff: Tariff = {
+    id: null,
+    code: 'config',
+    version: 0,
+    base_fare: pricing.baseFare,
+    per_km_rate: pricing.perKmRate,
+    per_minute_rate: 0,
+    minimum_fare: 0,
+    airport_access_fee: 0,
+    max_surge_multiplier: pricing.surgeMultiplierMax,
+    pool_discount_percent: pricing.poolDiscountPercent,
+    pool_pricing_mode: pricing.poolPricingMode,
+    currency: config.pricing.currency,
+    tax_lines: null,
+    effective_from: new Date(0),
+  };
+  return new Map([['sedan', tariff]]);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const idx = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+  return sorted[idx];
+}
+
+function summarize(label: string, samples: number[], candidates: number[]): void {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const avgCandidates = candidates.reduce((a, b) => a + b, 0) / candidates.length;
+
+  console.log(
+    `${label.padEnd(20)} p50=${percentile(sorted, 50).toFixed(2)}ms ` +
+      `p95=${percentile(sorted, 95).toFixed(2)}ms ` +
+      `max=${sorted[sorted.length - 1].toFixed(2)}ms ` +
+      `avg_candidates=${avgCandidates.toFixed(0)}`
+  );
+}
+
+async function run(): Promise<void> {
+  logger.level = 'info';
+
+  const poolCount = parseInt(process.argv[2] || '10000', 10);
+  const requestCount = parseInt(process.argv[3] || '100', 10);
+  const precision = config.matching.geohashPrecision;
+  const radiusKm = config.ridePooling.maxDetourToleranceKm;
+
+  console.log(`Building ${poolCount} open pools...`);
+  const pools = Array.from({ length: poolCount }, (_, i) => syntheticPool(i));
+  const tariffs = syntheticTariffs();
+
+  // In-memory equivalent of the pickup_geohash index: cell → (pool, dropoff cell)
+  const index = new Map<string, Array<{ pool: PoolCandidate; dropoffCell: string }>>();
+  for (const candidate of pools) {
+    for (const r of candidate.existingRequests) {
+      const cell = encodeGeohash(r.pickup_latitude, r.pickup_longitude, precision);
+      const dropoffCell = encodeGeohash(r.dropoff_latitude, r.dropoff_longitude, precision);
+      if (!index.has(cell)) index.set(cell, []);
+      index.get(cell).push({ pool: candidate, dropoffCell });
+    }
+  }
+
+  const requests = Array.from({ length: requestCount }, () => {
+    const r = syntheticRequest();
+    r.status = 'pending';
+    return r;
+  });
+
+  const fullScan: number[] = [];
+  const fullScanCandidates: number[] = [];
+  const prefiltered: number[] = [];
+  const prefilteredCandidates: number[] = [];
+
+  for (const request of requests) {
+    let start = performance.now();
+    await matchingEngine.rankMatches(request, pools, tariffs);
+    fullScan.push(performance.now() - start);
+    fullScanCandidates.push(pools.length);
+
+    start = performance.now();
+    const pickupCells = geohashesWithinRadius(
+      request.pickup_latitude,
+      request.pickup_longitude,
+      radiusKm,
+      precision
+    );
+    const dropoffCells = new Set(
+      geohashesWithinRadius(request.dropoff_latitude, request.dropoff_longitude, radiusKm * 2, precision)
+    );
+    const candidates = new Set<PoolCandidate>();
+    for (const cell of pickupCells) {
+      for (const entry of index.get(cell) || []) {
+        if (dropoffCells.has(entry.dropoffCell)) candidates.add(entry.pool);
+      }
+    }
+    await matchingEngine.rankMatches(request, Array.from(candidates), tariffs);
+    prefiltered.push(performance.now() - start);
+    prefilteredCandidates.push(candidates.size);
+  }
+
+  console.log(`\n=== MATCHING LATENCY (${poolCount} pools, ${requestCount} requests) ===`);
+  summarize('full scan', fullScan, fullScanCandidates);
+  summarize('geohash pre-filter', prefiltered, prefilteredCandidates);
+  console.log('');
+}
+
+if (require.main === module) {
+  run()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Benchmark failed:', error);
+      process.exit(1);
+    });
+}
@@ -2,6 +2,116 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+function parseJsonEnv<T>(value: string | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Invalid JSON in environment variable: ${value}`);
+  }
+}
+
+// "HH:MM-HH:MM,..." → minute-of-day ranges, end exclusive
+function parsePeakWindows(value: string): Array<{ start: number; end: number }> {
+  return value
+    .split(',')
+    .map((w) => w.trim())
+    .filter((w) => w.length > 0)
+    .map((w) => {
+      const match = /^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/.exec(w);
+      if (!match) {
+        throw new Error(`Invalid peak window: ${w}`);
+      }
+      return {
+        start: parseInt(match[1], 10) * 60 + parseInt(match[2], 10),
+        end: parseInt(match[3], 10) * 60 + parseInt(match[4], 10),
+      };
+    });
+}
+
+// "code:percent:8.875,code:fixed:2.50" → tax lines; rates are percent or
+// a fixed amount in major units
+function parseTaxLines(
+  value: string
+): Array<{ code: string; type: 'percent' | 'fixed'; rate: number }> {
+  return value
+    .split(',')
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0)
+    .map((t) => {
+      const match = /^([a-z0-9_]+):(percent|fixed):(\d+(?:\.\d+)?)$/.exec(t);
+      if (!match) {
+        throw new Error(`Invalid tax line: ${t}`);
+      }
+      return {
+        code: match[1],
+        type: match[2] as 'percent' | 'fixed',
+        rate: parseFloat(match[3]),
+      };
+    });
+}
+
+// Built-in match scoring strategies (services/matchScoring.ts) and the
+// factors they weight
+const SCORING_STRATEGIES = [
+  'minimize_vehicle_km',
+  'minimize_max_detour',
+  'maximize_utilization',
+  'revenue_weighted',
+];
+const SCORING_FACTORS = ['vehicle_km', 'max_detour', 'utilization', 'revenue'];
+
+function checkScoringStrategy(name: string): string {
+  if (!SCORING_STRATEGIES.includes(name)) {
+    throw new Error(`Unknown match scoring strategy: ${name}`);
+  }
+  return name;
+}
+
+// Partial weights: known factors only, each a finite number >= 0
+function checkScoringWeights(weights: unknown): Record<string, number> {
+  if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+    throw new Error(`Invalid match scoring weights: ${JSON.stringify(weights)}`);
+  }
+  for (const [factor, weight] of Object.entries(weights)) {
+    if (!SCORING_FACTORS.includes(factor)) {
+      throw new Error(`Unknown match scoring factor: ${factor}`);
+    }
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid match scoring weight for ${factor}: ${weight}`);
+    }
+  }
+  return weights as Record<string, number>;
+}
+
+// {"<location-id>":{"strategy":"...","weights":{...}}}, both keys optional
+function parseScoringAirports(
+  value: string | undefined
+): Record<string, { strategy?: string; weights?: Record<string, number> }> {
+  const overrides = parseJsonEnv<Record<string, { strategy?: string; weights?: unknown }>>(
+    value,
+    {}
+  );
+  return Object.fromEntries(
+    Object.entries(overrides).map(([locationId, override]) => {
+      if (typeof override !== 'object' || override === null) {
+        throw new Error(`Invalid match scoring override for location ${locationId}`);
+      }
+      return [
+        locationId,
+        {
+          strategy:
+            override.strategy === undefined ? undefined : checkScoringStrategy(override.strategy),
+          weights:
+            override.weights === undefined ? undefined : checkScoringWeights(override.weights),
+        },
+      ];
+    })
+  );
+}
+
 export const config = {
   env: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3000', 10),
@@ -31,6 +141,82 @@ export const config = {
     perKmRate: parseFloat(process.env.PER_KM_RATE || '15'),
     surgeMultiplierMax: parseFloat(process.env.SURGE_MULTIPLIER_MAX || '2.5'),
     poolDiscountPercent: parseFloat(process.env.POOL_DISCOUNT_PERCENT || '20'),
+    averageSpeedKmh: parseFloat(process.env.AVERAGE_SPEED_KMH || '30'),
+    quoteTtlSeconds: parseInt(process.env.QUOTE_TTL_SECONDS || '300', 10),
+    poolPricingMode: (process.env.POOL_PRICING_MODE || 'flat_discount') as
+      | 'flat_discount'
+      | 'cost_sharing',
+    detourCompensationPercent: parseFloat(process.env.DETOUR_COMPENSATION_PERCENT || '50'),
+  },
+
+  vehicleClasses: {
+    sedan: {
+      seats: parseInt(process.env.MAX_PASSENGERS_PER_POOL || '4', 10),
+      luggage: parseInt(process.env.MAX_LUGGAGE_CAPACITY || '8', 10),
+    },
+    suv: {
+      seats: parseInt(process.env.SUV_SEATS || '6', 10),
+      luggage: parseInt(process.env.SUV_LUGGAGE_CAPACITY || '10', 10),
+    },
+    van: {
+      seats: parseInt(process.env.VAN_SEATS || '8', 10),
+      luggage: parseInt(process.env.VAN_LUGGAGE_CAPACITY || '14', 10),
+    },
+  },
+  defaultVehicleClass: (process.env.DEFAULT_VEHICLE_CLASS || 'sedan') as 'sedan' | 'suv' | 'van',
+
+  matching: {
+    batchIntervalMs: parseInt(process.env.BATCH_MATCHING_INTERVAL_MS || '30000', 10),
+    exactRouteMaxStops: parseInt(process.env.EXACT_ROUTE_MAX_STOPS || '10', 10),
+    geohashPrecision: parseInt(process.env.GEOHASH_PRECISION || '5', 10),
+    candidatePoolLimit: parseInt(process.env.CANDIDATE_POOL_LIMIT || '200', 10),
+    scoring: {
+      strategy: checkScoringStrategy(process.env.MATCH_SCORING_STRATEGY || 'minimize_vehicle_km'),
+      // Partial weight overrides, e.g. {"max_detour":0.5}
+      weights: checkScoringWeights(parseJsonEnv(process.env.MATCH_SCORING_WEIGHTS, {})),
+      // Per-airport overrides keyed by pickup location id,
+      // e.g. {"<location-id>":{"strategy":"revenue_weighted","weights":{"revenue":0.7}}}
+      airportOverrides: parseScoringAirports(process.env.MATCH_SCORING_AIRPORTS),
+    },
+  },
+
+  surge: {
+    // Geohash precision of pricing zones (capped at GEOHASH_PRECISION)
+    zonePrecision: parseInt(process.env.SURGE_ZONE_PRECISION || '5', 10),
+    cacheTtlSeconds: parseInt(process.env.SURGE_CACHE_TTL_SECONDS || '60', 10),
+    // Idle vehicles within this radius of a zone count as its supply
+    supplyRadiusKm: parseFloat(process.env.SURGE_SUPPLY_RADIUS_KM || '5'),
+    // Weight of the newest demand sample in the moving average (0-1]
+    emaAlpha: parseFloat(process.env.SURGE_EMA_ALPHA || '0.3'),
+    peakWindows: parsePeakWindows(process.env.SURGE_PEAK_WINDOWS || '07:00-10:00,17:00-21:00'),
+    peakFactor: parseFloat(process.env.SURGE_PEAK_FACTOR || '1.5'),
+    // IANA time zone for peak windows; empty = server local time
+    timeZone: process.env.SURGE_TIMEZONE || '',
+  },
+
+  pricing: {
+    // ISO 4217 currency of the config tariff and the seeded default tariff
+    currency: (process.env.PRICING_CURRENCY || 'USD').toUpperCase(),
+    // Tax lines of tariffs that do not set their own
+    taxLines: parseTaxLines(process.env.PRICING_TAX_LINES || ''),
+  },
+
+  cancellation: {
+    // Minutes after booking during which riders cancel for free
+    freeWindowMinutes: parseFloat(process.env.CANCELLATION_FREE_WINDOW_MINUTES || '2'),
+    matchedFee: parseFloat(process.env.CANCELLATION_MATCHED_FEE || '25'),
+    // Once a vehicle has been assigned to the rider's pool
+    dispatchedFee: parseFloat(process.env.CANCELLATION_DISPATCHED_FEE || '75'),
+    noShowFee: parseFloat(process.env.NO_SHOW_FEE || '100'),
+  },
+
+  matchingQueue: {
+    runInProcess: (process.env.MATCHING_WORKER_IN_PROCESS || 'true') === 'true',
+    pollIntervalMs: parseInt(process.env.MATCHING_QUEUE_POLL_MS || '1000', 10),
+    batchSize: parseInt(process.env.MATCHING_QUEUE_BATCH_SIZE || '10', 10),
+    maxAttempts: parseInt(process.env.MATCHING_QUEUE_MAX_ATTEMPTS || '5', 10),
+    backoffBaseMs: parseInt(process.env.MATCHING_QUEUE_BACKOFF_MS || '2000', 10),
+    visibilityTimeoutMs: parseInt(process.env.MATCHING_QUEUE_VISIBILITY_TIMEOUT_MS || '60000', 10),
   },
 
   rateLimiting: {
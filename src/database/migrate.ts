@@ -1,13 +1,23 @@
 import { db } from './db';
 import { logger } from '../logger';
+import { config } from '../config';
+import { encodeGeohash } from '../utils/geohash';
+import { currencyExponent, isCurrencyCode } from '../utils/money';
 
 const schema = `
--- Users Table
+-- Users Table (soft-deleted rows keep their rides; emails are unique among active users)
 CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name VARCHAR(255) NOT NULL,
-  email VARCHAR(255) UNIQUE NOT NULL,
+  email VARCHAR(255) NOT NULL,
   phone VARCHAR(20) NOT NULL,
+  preferred_language VARCHAR(10) NOT NULL DEFAULT 'en',
+  accessibility_needs TEXT[] NOT NULL DEFAULT '{}',
+  default_passenger_count INTEGER NOT NULL DEFAULT 1
+    CHECK (default_passenger_count BETWEEN 1 AND 4),
+  default_luggage_count INTEGER NOT NULL DEFAULT 0
+    CHECK (default_luggage_count BETWEEN 0 AND 4),
+  deleted_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -22,6 +32,56 @@ CREATE TABLE IF NOT EXISTS locations (
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Drivers Table
+CREATE TABLE IF NOT EXISTS drivers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  phone VARCHAR(20) NOT NULL,
+  license_number VARCHAR(50) UNIQUE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Vehicles Table
+CREATE TABLE IF NOT EXISTS vehicles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL,
+  registration_number VARCHAR(20) UNIQUE NOT NULL,
+  vehicle_class VARCHAR(20) NOT NULL CHECK (vehicle_class IN ('sedan', 'suv', 'van')),
+  seat_count INTEGER NOT NULL CHECK (seat_count > 0),
+  luggage_capacity INTEGER NOT NULL CHECK (luggage_capacity >= 0),
+  accessibility_features TEXT[] NOT NULL DEFAULT '{}',
+  status VARCHAR(20) NOT NULL DEFAULT 'available'
+    CHECK (status IN ('available', 'assigned', 'in_service', 'offline')),
+  current_latitude DECIMAL(10, 8),
+  current_longitude DECIMAL(11, 8),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Fare Quotes Table (price locked for a rider until expires_at)
+CREATE TABLE IF NOT EXISTS fare_quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  pickup_location_id UUID NOT NULL REFERENCES locations(id),
+  dropoff_location_id UUID NOT NULL REFERENCES locations(id),
+  pickup_latitude DECIMAL(10, 8) NOT NULL,
+  pickup_longitude DECIMAL(11, 8) NOT NULL,
+  dropoff_latitude DECIMAL(10, 8) NOT NULL,
+  dropoff_longitude DECIMAL(11, 8) NOT NULL,
+  passenger_count INTEGER NOT NULL CHECK (passenger_count > 0 AND passenger_count <= 4),
+  luggage_count INTEGER NOT NULL CHECK (luggage_count >= 0 AND luggage_count <= 4),
+  quoted_price INTEGER NOT NULL,
+  currency CHAR(3) NOT NULL,
+  surge_multiplier DECIMAL(4, 2) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'used')),
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Ride Requests Table
 CREATE TABLE IF NOT EXISTS ride_requests (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -32,14 +92,26 @@ CREATE TABLE IF NOT EXISTS ride_requests (
   pickup_longitude DECIMAL(11, 8) NOT NULL,
   dropoff_latitude DECIMAL(10, 8) NOT NULL,
   dropoff_longitude DECIMAL(11, 8) NOT NULL,
+  pickup_geohash VARCHAR(12),
+  dropoff_geohash VARCHAR(12),
   passenger_count INTEGER NOT NULL DEFAULT 1 CHECK (passenger_count > 0 AND passenger_count <= 4),
   luggage_count INTEGER NOT NULL DEFAULT 0 CHECK (luggage_count >= 0 AND luggage_count <= 4),
   max_detour_km DECIMAL(8, 2) NOT NULL DEFAULT 5.0,
+  flight_number VARCHAR(10),
+  earliest_pickup_at TIMESTAMP,
+  latest_arrival_at TIMESTAMP,
+  quote_id UUID UNIQUE REFERENCES fare_quotes(id),
+  quoted_price INTEGER,
+  quote_currency CHAR(3),
   status VARCHAR(50) NOT NULL DEFAULT 'pending' 
     CHECK (status IN ('pending', 'matched', 'confirmed', 'cancelled', 'completed')),
+  cancelled_at TIMESTAMP,
+  cancellation_reason VARCHAR(20) CHECK (cancellation_reason IN ('rider', 'system', 'no_show')),
   requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (latest_arrival_at IS NULL OR earliest_pickup_at IS NULL
+         OR latest_arrival_at > earliest_pickup_at)
 );
 
 -- Ride Pools Table
@@ -52,6 +124,9 @@ CREATE TABLE IF NOT EXISTS ride_pools (
   current_luggage_count INTEGER NOT NULL DEFAULT 0,
   max_passengers INTEGER NOT NULL DEFAULT 4,
   max_luggage INTEGER NOT NULL DEFAULT 8,
+  vehicle_class VARCHAR(20) NOT NULL DEFAULT 'sedan'
+    CHECK (vehicle_class IN ('sedan', 'suv', 'van')),
+  vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL,
   estimated_departure TIMESTAMP,
   actual_departure TIMESTAMP,
   route_distance_km DECIMAL(10, 2),
@@ -68,24 +143,222 @@ CREATE TABLE IF NOT EXISTS pool_members (
   pickup_sequence INTEGER NOT NULL,
   dropoff_sequence INTEGER NOT NULL,
   detour_distance_km DECIMAL(8, 2) NOT NULL DEFAULT 0,
-  price DECIMAL(10, 2) NOT NULL,
+  price INTEGER NOT NULL,
+  match_score JSONB,
   joined_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   UNIQUE(pool_id, ride_request_id)
 );
 
--- Pricing History Table
-CREATE TABLE IF NOT EXISTS pricing_history (
+-- Pool Stops Table (ordered route for each pool, rebuilt on membership change)
+CREATE TABLE IF NOT EXISTS pool_stops (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pool_id UUID NOT NULL REFERENCES ride_pools(id) ON DELETE CASCADE,
   ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  stop_sequence INTEGER NOT NULL,
+  stop_type VARCHAR(20) NOT NULL CHECK (stop_type IN ('pickup', 'dropoff')),
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  planned_arrival_at TIMESTAMP,
+  cumulative_distance_km DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(pool_id, stop_sequence)
+);
+
+-- Tariffs Table (versioned rate plans; most specific active row wins)
+CREATE TABLE IF NOT EXISTS tariffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) NOT NULL,
+  version INTEGER NOT NULL,
+  airport_location_id UUID REFERENCES locations(id),
+  vehicle_class VARCHAR(20) CHECK (vehicle_class IN ('sedan', 'suv', 'van')),
   base_fare DECIMAL(10, 2) NOT NULL,
-  distance_fare DECIMAL(10, 2) NOT NULL,
+  per_km_rate DECIMAL(10, 2) NOT NULL,
+  per_minute_rate DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  minimum_fare DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  airport_access_fee DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  max_surge_multiplier DECIMAL(4, 2) NOT NULL,
+  pool_discount_percent DECIMAL(5, 2) NOT NULL,
+  pool_pricing_mode VARCHAR(20) NOT NULL DEFAULT 'flat_discount'
+    CHECK (pool_pricing_mode IN ('flat_discount', 'cost_sharing')),
+  currency CHAR(3) NOT NULL,
+  tax_lines JSONB,
+  effective_from TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  effective_to TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(code, version),
+  CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+-- Promotions Table (percent-off or fixed-off codes; fixed amounts and caps in integer minor
+-- units of currency)
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) UNIQUE NOT NULL,
+  description VARCHAR(255),
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  max_discount INTEGER CHECK (max_discount > 0),
+  currency CHAR(3) NOT NULL,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_redemptions_per_user > 0),
+  first_pooled_ride_only BOOLEAN NOT NULL DEFAULT false,
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  valid_from TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  valid_until TIMESTAMP,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (discount_type <> 'percent' OR discount_value <= 100),
+  CHECK (discount_type <> 'fixed' OR discount_value = TRUNC(discount_value)),
+  CHECK (valid_until IS NULL OR valid_until > valid_from)
+);
+
+-- Promo Redemptions Table (at most one per ride; keyed by ride for idempotency)
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id UUID NOT NULL REFERENCES promotions(id),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ride_request_id UUID UNIQUE NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  discount_amount INTEGER NOT NULL DEFAULT 0,
+  currency CHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'reversed')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Rider Credits Table (spendable balance per rider, in integer minor units of currency)
+CREATE TABLE IF NOT EXISTS rider_credits (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  balance INTEGER NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  currency CHAR(3) NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Credit Transactions Table (grants are positive; a ride holds one negative row)
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ride_request_id UUID UNIQUE REFERENCES ride_requests(id) ON DELETE SET NULL,
+  amount INTEGER NOT NULL,
+  currency CHAR(3) NOT NULL,
+  reason VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Charges Table (cancellation and no-show fees; one of each type per ride)
+CREATE TABLE IF NOT EXISTS charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  charge_type VARCHAR(30) NOT NULL CHECK (charge_type IN ('cancellation_fee', 'no_show_fee')),
+  amount INTEGER NOT NULL CHECK (amount >= 0),
+  currency CHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'waived')),
+  policy_rule VARCHAR(30) NOT NULL,
+  ride_status VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(ride_request_id, charge_type)
+);
+
+-- Ledger Entries Table (double-entry, append-only; a journal's entries balance)
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_id UUID NOT NULL,
+  journal_type VARCHAR(30) NOT NULL
+    CHECK (journal_type IN (
+      'ride_fare', 'cancellation_fee', 'no_show_fee', 'refund', 'goodwill_credit'
+    )),
+  ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  pool_id UUID REFERENCES ride_pools(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  account VARCHAR(30) NOT NULL CHECK (account IN (
+    'rider_receivable', 'fare_revenue', 'airport_fees_payable', 'taxes_payable',
+    'pool_discounts', 'quote_adjustments', 'promotions_expense', 'rider_credits',
+    'cancellation_fee_revenue', 'no_show_fee_revenue', 'refunds', 'goodwill_expense'
+  )),
+  debit INTEGER NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit INTEGER NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  currency CHAR(3) NOT NULL,
+  description VARCHAR(255),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((debit = 0) <> (credit = 0))
+);
+
+-- Fare Adjustments Table (refunds and goodwill credits by ops; capped at the amount charged)
+CREATE TABLE IF NOT EXISTS fare_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  adjustment_type VARCHAR(20) NOT NULL
+    CHECK (adjustment_type IN ('full_refund', 'partial_refund', 'goodwill_credit')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  currency CHAR(3) NOT NULL,
+  reason_code VARCHAR(30) NOT NULL,
+  actor VARCHAR(100) NOT NULL,
+  note TEXT,
+  journal_id UUID NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Pool Reconciliations Table (written when a pool completes)
+CREATE TABLE IF NOT EXISTS pool_reconciliations (
+  pool_id UUID PRIMARY KEY REFERENCES ride_pools(id) ON DELETE CASCADE,
+  member_count INTEGER NOT NULL,
+  currency CHAR(3) NOT NULL,
+  pool_revenue INTEGER NOT NULL,
+  member_charges INTEGER NOT NULL,
+  expected_charges INTEGER NOT NULL DEFAULT 0,
+  difference INTEGER NOT NULL,
+  balanced BOOLEAN NOT NULL,
+  members JSONB NOT NULL DEFAULT '[]',
+  reconciled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Pricing History Table (amounts in integer minor units of currency; lines sum to final_price)
+CREATE TABLE IF NOT EXISTS pricing_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  currency CHAR(3) NOT NULL,
+  base_fare INTEGER NOT NULL,
+  distance_fare INTEGER NOT NULL,
+  time_fare INTEGER NOT NULL DEFAULT 0,
+  subtotal INTEGER NOT NULL DEFAULT 0,
   surge_multiplier DECIMAL(4, 2) NOT NULL DEFAULT 1.0,
-  pool_discount DECIMAL(10, 2) NOT NULL DEFAULT 0,
-  final_price DECIMAL(10, 2) NOT NULL,
+  surge_amount INTEGER NOT NULL DEFAULT 0,
+  pool_discount INTEGER NOT NULL DEFAULT 0,
+  airport_fee INTEGER NOT NULL DEFAULT 0,
+  tax_total INTEGER NOT NULL DEFAULT 0,
+  quote_adjustment INTEGER NOT NULL DEFAULT 0,
+  promo_discount INTEGER NOT NULL DEFAULT 0,
+  credits_applied INTEGER NOT NULL DEFAULT 0,
+  final_price INTEGER NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]',
   demand_factor DECIMAL(4, 2) NOT NULL DEFAULT 1.0,
+  tariff_id UUID REFERENCES tariffs(id),
+  tariff_version INTEGER,
+  pricing_mode VARCHAR(20) NOT NULL DEFAULT 'flat_discount',
+  cost_share JSONB,
   calculated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Matching Jobs Table (durable queue, claimed with FOR UPDATE SKIP LOCKED)
+CREATE TABLE IF NOT EXISTS matching_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_request_id UUID NOT NULL REFERENCES ride_requests(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'processing', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_at TIMESTAMP,
+  locked_by VARCHAR(100),
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Performance Metrics Table
 CREATE TABLE IF NOT EXISTS metrics (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -95,10 +368,61 @@ CREATE TABLE IF NOT EXISTS metrics (
   recorded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Upgrades: columns added to tables created by an earlier version of this schema
+
+-- Emails are unique among active profiles only (idx_users_email_active), so the
+-- original table-wide constraint and plain index go
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_email_key;
+DROP INDEX IF EXISTS idx_users_email;
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS preferred_language VARCHAR(10) NOT NULL DEFAULT 'en',
+  ADD COLUMN IF NOT EXISTS accessibility_needs TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS default_passenger_count INTEGER NOT NULL DEFAULT 1
+    CHECK (default_passenger_count BETWEEN 1 AND 4),
+  ADD COLUMN IF NOT EXISTS default_luggage_count INTEGER NOT NULL DEFAULT 0
+    CHECK (default_luggage_count BETWEEN 0 AND 4),
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+ALTER TABLE ride_requests
+  ADD COLUMN IF NOT EXISTS pickup_geohash VARCHAR(12),
+  ADD COLUMN IF NOT EXISTS dropoff_geohash VARCHAR(12),
+  ADD COLUMN IF NOT EXISTS flight_number VARCHAR(10),
+  ADD COLUMN IF NOT EXISTS earliest_pickup_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS latest_arrival_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS quote_id UUID UNIQUE REFERENCES fare_quotes(id),
+  ADD COLUMN IF NOT EXISTS quoted_price INTEGER,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS cancellation_reason VARCHAR(20)
+    CHECK (cancellation_reason IN ('rider', 'system', 'no_show'));
+
+ALTER TABLE ride_pools
+  ADD COLUMN IF NOT EXISTS vehicle_class VARCHAR(20) NOT NULL DEFAULT 'sedan'
+    CHECK (vehicle_class IN ('sedan', 'suv', 'van')),
+  ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+
+ALTER TABLE pool_members
+  ADD COLUMN IF NOT EXISTS match_score JSONB;
+
+ALTER TABLE pricing_history
+  ADD COLUMN IF NOT EXISTS time_fare INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS subtotal INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS surge_amount INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS airport_fee INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_total INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS quote_adjustment INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS promo_discount INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS credits_applied INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lines JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS tariff_id UUID REFERENCES tariffs(id),
+  ADD COLUMN IF NOT EXISTS tariff_version INTEGER,
+  ADD COLUMN IF NOT EXISTS pricing_mode VARCHAR(20) NOT NULL DEFAULT 'flat_discount',
+  ADD COLUMN IF NOT EXISTS cost_share JSONB;
+
 -- Indexes for Performance Optimization
 
 -- Users
-CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email_active ON users(LOWER(email)) WHERE deleted_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_users_phone ON users(phone);
 
 -- Ride Requests
@@ -108,12 +432,27 @@ CREATE INDEX IF NOT EXISTS idx_ride_requests_requested_at ON ride_requests(reque
 CREATE INDEX IF NOT EXISTS idx_ride_requests_status_requested_at ON ride_requests(status, requested_at DESC);
 CREATE INDEX IF NOT EXISTS idx_ride_requests_pickup_location ON ride_requests(pickup_location_id);
 CREATE INDEX IF NOT EXISTS idx_ride_requests_dropoff_location ON ride_requests(dropoff_location_id);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_earliest_pickup ON ride_requests(earliest_pickup_at);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_flight_number ON ride_requests(flight_number);
 -- Geospatial index for location-based queries
 CREATE INDEX IF NOT EXISTS idx_ride_requests_pickup_coords ON ride_requests(pickup_latitude, pickup_longitude);
 CREATE INDEX IF NOT EXISTS idx_ride_requests_dropoff_coords ON ride_requests(dropoff_latitude, dropoff_longitude);
+-- Geohash cells for candidate pool pre-filtering
+CREATE INDEX IF NOT EXISTS idx_ride_requests_pickup_geohash ON ride_requests(pickup_geohash);
+CREATE INDEX IF NOT EXISTS idx_ride_requests_dropoff_geohash ON ride_requests(dropoff_geohash);
+
+-- Fare Quotes
+CREATE INDEX IF NOT EXISTS idx_fare_quotes_user_id ON fare_quotes(user_id);
+CREATE INDEX IF NOT EXISTS idx_fare_quotes_expires_at ON fare_quotes(expires_at);
+
+-- Drivers / Vehicles
+CREATE INDEX IF NOT EXISTS idx_drivers_status ON drivers(status);
+CREATE INDEX IF NOT EXISTS idx_vehicles_status_class ON vehicles(status, vehicle_class);
+CREATE INDEX IF NOT EXISTS idx_vehicles_driver_id ON vehicles(driver_id);
 
 -- Ride Pools
 CREATE INDEX IF NOT EXISTS idx_ride_pools_status ON ride_pools(status);
+CREATE INDEX IF NOT EXISTS idx_ride_pools_vehicle_id ON ride_pools(vehicle_id);
 CREATE INDEX IF NOT EXISTS idx_ride_pools_created_at ON ride_pools(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_ride_pools_pool_code ON ride_pools(pool_code);
 
@@ -122,10 +461,38 @@ CREATE INDEX IF NOT EXISTS idx_pool_members_pool_id ON pool_members(pool_id);
 CREATE INDEX IF NOT EXISTS idx_pool_members_ride_request_id ON pool_members(ride_request_id);
 CREATE INDEX IF NOT EXISTS idx_pool_members_pool_ride ON pool_members(pool_id, ride_request_id);
 
+-- Pool Stops
+CREATE INDEX IF NOT EXISTS idx_pool_stops_pool_sequence ON pool_stops(pool_id, stop_sequence);
+CREATE INDEX IF NOT EXISTS idx_pool_stops_ride_request ON pool_stops(ride_request_id);
+
 -- Pricing History
 CREATE INDEX IF NOT EXISTS idx_pricing_history_ride_request ON pricing_history(ride_request_id);
 CREATE INDEX IF NOT EXISTS idx_pricing_history_calculated_at ON pricing_history(calculated_at DESC);
 
+-- Tariffs
+CREATE INDEX IF NOT EXISTS idx_tariffs_effective ON tariffs(effective_from, effective_to);
+CREATE INDEX IF NOT EXISTS idx_tariffs_airport_class ON tariffs(airport_location_id, vehicle_class);
+
+-- Promotions and Credits
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promotion_user ON promo_redemptions(promotion_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user ON credit_transactions(user_id, created_at DESC);
+
+-- Charges
+CREATE INDEX IF NOT EXISTS idx_charges_user ON charges(user_id, created_at DESC);
+
+-- Ledger
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_ride_request ON ledger_entries(ride_request_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_journal ON ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_pool ON ledger_entries(pool_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_once_per_ride ON ledger_entries(ride_request_id, journal_type) WHERE account = 'rider_receivable' AND journal_type IN ('ride_fare', 'cancellation_fee', 'no_show_fee');
+
+-- Fare Adjustments
+CREATE INDEX IF NOT EXISTS idx_fare_adjustments_ride_request ON fare_adjustments(ride_request_id, created_at);
+
+-- Matching Jobs
+CREATE INDEX IF NOT EXISTS idx_matching_jobs_status_run_at ON matching_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_matching_jobs_ride_request ON matching_jobs(ride_request_id);
+
 -- Metrics
 CREATE INDEX IF NOT EXISTS idx_metrics_type ON metrics(metric_type);
 CREATE INDEX IF NOT EXISTS idx_metrics_recorded_at ON metrics(recorded_at DESC);
@@ -146,21 +513,235 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Apply update triggers
+-- Apply update triggers (recreated, so the migration can run again)
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_ride_requests_updated_at ON ride_requests;
 CREATE TRIGGER update_ride_requests_updated_at BEFORE UPDATE ON ride_requests
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_ride_pools_updated_at ON ride_pools;
 CREATE TRIGGER update_ride_pools_updated_at BEFORE UPDATE ON ride_pools
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_drivers_updated_at ON drivers;
+CREATE TRIGGER update_drivers_updated_at BEFORE UPDATE ON drivers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_vehicles_updated_at ON vehicles;
+CREATE TRIGGER update_vehicles_updated_at BEFORE UPDATE ON vehicles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_matching_jobs_updated_at ON matching_jobs;
+CREATE TRIGGER update_matching_jobs_updated_at BEFORE UPDATE ON matching_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_fare_quotes_updated_at ON fare_quotes;
+CREATE TRIGGER update_fare_quotes_updated_at BEFORE UPDATE ON fare_quotes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_promotions_updated_at ON promotions;
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON promotions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_promo_redemptions_updated_at ON promo_redemptions;
+CREATE TRIGGER update_promo_redemptions_updated_at BEFORE UPDATE ON promo_redemptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_rider_credits_updated_at ON rider_credits;
+CREATE TRIGGER update_rider_credits_updated_at BEFORE UPDATE ON rider_credits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_credit_transactions_updated_at ON credit_transactions;
+CREATE TRIGGER update_credit_transactions_updated_at BEFORE UPDATE ON credit_transactions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_charges_updated_at ON charges;
+CREATE TRIGGER update_charges_updated_at BEFORE UPDATE ON charges
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 `;
 
+/**
+ * Money columns that held DECIMAL major units before amounts moved to integer minor units
+ */
+const MONEY_COLUMNS: Array<[string, string]> = [
+  ['fare_quotes', 'quoted_price'],
+  ['ride_requests', 'quoted_price'],
+  ['pool_members', 'price'],
+  ['promotions', 'max_discount'],
+  ['promo_redemptions', 'discount_amount'],
+  ['rider_credits', 'balance'],
+  ['credit_transactions', 'amount'],
+  ['charges', 'amount'],
+  ['ledger_entries', 'debit'],
+  ['ledger_entries', 'credit'],
+  ['fare_adjustments', 'amount'],
+  ['pool_reconciliations', 'pool_revenue'],
+  ['pool_reconciliations', 'member_charges'],
+  ['pool_reconciliations', 'difference'],
+  ['pricing_history', 'base_fare'],
+  ['pricing_history', 'distance_fare'],
+  ['pricing_history', 'time_fare'],
+  ['pricing_history', 'pool_discount'],
+  ['pricing_history', 'airport_fee'],
+  ['pricing_history', 'quote_adjustment'],
+  ['pricing_history', 'promo_discount'],
+  ['pricing_history', 'credits_applied'],
+  ['pricing_history', 'final_price'],
+];
+
+/**
+ * Tables whose rows record the currency of their amounts
+ */
+const CURRENCY_TABLES = [
+  'fare_quotes',
+  'tariffs',
+  'promotions',
+  'promo_redemptions',
+  'rider_credits',
+  'credit_transactions',
+  'charges',
+  'ledger_entries',
+  'fare_adjustments',
+  'pool_reconciliations',
+  'pricing_history',
+];
+
+/**
+ * Bring money columns of an older database to integer minor units
+ *
+ * Rows written before currencies were recorded are in PRICING_CURRENCY, so
+ * DECIMAL amounts are scaled by its exponent and missing currency columns are
+ * filled with it. Runs in one transaction and only touches columns still in
+ * the old shape, so a second run is a no-op.
+ *
+ * Time: O(rows in converted tables), Space: O(1)
+ */
+async function upgradeMoneyColumns(): Promise<void> {
+  const currency = config.pricing.currency;
+  if (!isCurrencyCode(currency)) {
+    throw new Error(`Invalid PRICING_CURRENCY: ${currency}`);
+  }
+  const factor = Math.pow(10, currencyExponent(currency));
+
+  await db.transaction(async (client) => {
+    const result = await client.query(
+      `SELECT table_name, column_name, data_type FROM information_schema.columns
+       WHERE table_schema = current_schema()`
+    );
+    const types = new Map<string, string>(
+      result.rows.map((row) => [`${row.table_name}.${row.column_name}`, row.data_type])
+    );
+    const converted: string[] = [];
+
+    for (const table of CURRENCY_TABLES) {
+      if (!types.has(`${table}.currency`)) {
+        await client.query(
+          `ALTER TABLE ${table} ADD COLUMN currency CHAR(3) NOT NULL DEFAULT '${currency}'`
+        );
+        await client.query(`ALTER TABLE ${table} ALTER COLUMN currency DROP DEFAULT`);
+        converted.push(`${table}.currency`);
+      }
+    }
+
+    if (!types.has('ride_requests.quote_currency')) {
+      await client.query(`ALTER TABLE ride_requests ADD COLUMN quote_currency CHAR(3)`);
+      await client.query(
+        `UPDATE ride_requests SET quote_currency = $1 WHERE quoted_price IS NOT NULL`,
+        [currency]
+      );
+      converted.push('ride_requests.quote_currency');
+    }
+
+    // Fixed promotion amounts moved to minor units together with their caps
+    if (types.get('promotions.max_discount') === 'numeric') {
+      await client.query(
+        `UPDATE promotions SET discount_value = ROUND(discount_value * $1)
+         WHERE discount_type = 'fixed'`,
+        [factor]
+      );
+    }
+
+    for (const [table, column] of MONEY_COLUMNS) {
+      if (types.get(`${table}.${column}`) === 'numeric') {
+        await client.query(
+          `ALTER TABLE ${table} ALTER COLUMN ${column} TYPE INTEGER
+           USING ROUND(${column} * ${factor})::INTEGER`
+        );
+        converted.push(`${table}.${column}`);
+      }
+    }
+
+    if (converted.length > 0) {
+      logger.info(`Upgraded money columns to ${currency} minor units: ${converted.join(', ')}`);
+    }
+  });
+}
+
+/**
+ * Fill geohash cells for rides inserted before the columns were added
+ * (or after GEOHASH_PRECISION changed)
+ */
+async function backfillGeohashes(): Promise<void> {
+  const precision = config.matching.geohashPrecision;
+  const result = await db.query(
+    `SELECT id, pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude
+     FROM ride_requests
+     WHERE pickup_geohash IS NULL OR LENGTH(pickup_geohash) <> $1`,
+    [precision]
+  );
+
+  for (const row of result.rows) {
+    await db.query(
+      `UPDATE ride_requests SET pickup_geohash = $1, dropoff_geohash = $2 WHERE id = $3`,
+      [
+        encodeGeohash(Number(row.pickup_latitude), Number(row.pickup_longitude), precision),
+        encodeGeohash(Number(row.dropoff_latitude), Number(row.dropoff_longitude), precision),
+        row.id,
+      ]
+    );
+  }
+
+  if (result.rows.length > 0) {
+    logger.info(`Backfilled geohashes for ${result.rows.length} ride requests`);
+  }
+}
+
+/**
+ * Create version 1 of the default tariff from config on an empty table
+ */
+async function seedDefaultTariff(): Promise<void> {
+  const pricing = config.ridePooling;
+  const result = await db.query(
+    `INSERT INTO tariffs
+     (code, version, base_fare, per_km_rate, max_surge_multiplier, pool_discount_percent,
+      pool_pricing_mode, currency)
+     SELECT 'default', 1, $1, $2, $3, $4, $5, $6
+     WHERE NOT EXISTS (SELECT 1 FROM tariffs)`,
+    [
+      pricing.baseFare,
+      pricing.perKmRate,
+      pricing.surgeMultiplierMax,
+      pricing.poolDiscountPercent,
+      pricing.poolPricingMode,
+      config.pricing.currency,
+    ]
+  );
+
+  if (result.rowCount > 0) {
+    logger.info('Created default tariff from config');
+  }
+}
+
 export async function migrate(): Promise<void> {
   try {
     logger.info('Starting database migration...');
     await db.query(schema);
+    await upgradeMoneyColumns();
+    await backfillGeohashes();
+    await seedDefaultTariff();
     logger.info('Database migration completed successfully');
   } catch (error) {
     logger.error('Database migration failed:', error);
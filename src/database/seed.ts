@@ -1,5 +1,7 @@
 import { db } from './db';
 import { logger } from '../logger';
+import { config } from '../config';
+import { encodeGeohash } from '../utils/geohash';
 
 /**
  * SEED DATA FOR TESTING
@@ -29,7 +31,7 @@ async function seed(): Promise<void> {
       const result = await db.query(
         `INSERT INTO users (name, email, phone) 
          VALUES ($1, $2, $3) 
-         ON CONFLICT (email) DO UPDATE SET name = $1
+         ON CONFLICT ((LOWER(email))) WHERE deleted_at IS NULL DO UPDATE SET name = $1
          RETURNING id`,
         [user.name, user.email, user.phone]
       );
@@ -63,6 +65,43 @@ async function seed(): Promise<void> {
     }
     logger.info(`Created ${locationIds.length} locations`);
 
+    // Create sample drivers and vehicles
+    const fleet = [
+      { driver: { name: 'Sam Carter', phone: '+1234567800', license: 'NY-D-1001' },
+        vehicle: { registration: 'NYC-1001', class: 'sedan', seats: 4, luggage: 8, features: [] } },
+      { driver: { name: 'Maria Lopez', phone: '+1234567801', license: 'NY-D-1002' },
+        vehicle: { registration: 'NYC-1002', class: 'suv', seats: 6, luggage: 10, features: [] } },
+      { driver: { name: 'Ken Park', phone: '+1234567802', license: 'NY-D-1003' },
+        vehicle: { registration: 'NYC-1003', class: 'van', seats: 8, luggage: 14,
+                   features: ['wheelchair_ramp'] } },
+    ];
+
+    for (const { driver, vehicle } of fleet) {
+      const driverResult = await db.query(
+        `INSERT INTO drivers (name, phone, license_number)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (license_number) DO UPDATE SET name = $1
+         RETURNING id`,
+        [driver.name, driver.phone, driver.license]
+      );
+      await db.query(
+        `INSERT INTO vehicles
+         (driver_id, registration_number, vehicle_class, seat_count, luggage_capacity,
+          accessibility_features, current_latitude, current_longitude)
+         VALUES ($1, $2, $3, $4, $5, $6, 40.6413, -73.7781)
+         ON CONFLICT (registration_number) DO NOTHING`,
+        [
+          driverResult.rows[0].id,
+          vehicle.registration,
+          vehicle.class,
+          vehicle.seats,
+          vehicle.luggage,
+          vehicle.features,
+        ]
+      );
+    }
+    logger.info(`Created ${fleet.length} vehicles`);
+
     // Create sample ride requests
     const rideRequests = [
       {
@@ -127,8 +166,9 @@ async function seed(): Promise<void> {
         `INSERT INTO ride_requests 
          (user_id, pickup_location_id, dropoff_location_id, 
           pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude,
+          pickup_geohash, dropoff_geohash,
           passenger_count, luggage_count, max_detour_km, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 5.0, 'pending')`,
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 5.0, 'pending')`,
         [
           ride.user_id,
           ride.pickup_location_id,
@@ -137,6 +177,8 @@ async function seed(): Promise<void> {
           ride.pickup_longitude,
           ride.dropoff_latitude,
           ride.dropoff_longitude,
+          encodeGeohash(ride.pickup_latitude, ride.pickup_longitude, config.matching.geohashPrecision),
+          encodeGeohash(ride.dropoff_latitude, ride.dropoff_longitude, config.matching.geohashPrecision),
           ride.passenger_count,
           ride.luggage_count,
         ]
@@ -150,6 +192,7 @@ async function seed(): Promise<void> {
     console.log('\n=== SEED DATA SUMMARY ===');
     console.log(`Users created: ${userIds.length}`);
     console.log(`Locations created: ${locationIds.length}`);
+    console.log(`Vehicles created: ${fleet.length}`);
     console.log(`Ride requests created: ${rideRequests.length}`);
     console.log('\nSample User Credentials:');
     users.slice(0, 3).forEach((user, idx) => {
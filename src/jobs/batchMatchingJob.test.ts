@@ -0,0 +1,63 @@
+import { db } from '../database/db';
+import { pricingService } from '../services/pricingService';
+import { rideService } from '../services/rideService';
+import { batchMatchingJob } from './batchMatchingJob';
+
+/**
+ * Batch job runs against the configured PostgreSQL database (npm run
+ * migrate). An unreachable database fails the suite; set SKIP_DB_TESTS=true
+ * to skip it instead. Matching itself is stubbed so the run leaves other
+ * pending rides alone.
+ */
+
+const describeWithDb = process.env.SKIP_DB_TESTS === 'true' ? describe.skip : describe;
+
+let locationId: string;
+let startedAt: Date;
+
+describeWithDb('BatchMatchingJob', () => {
+  beforeAll(async () => {
+    const location = await db.query(
+      `INSERT INTO locations (name, latitude, longitude, type)
+       VALUES ('Batch Test Airport', 51.47, -0.4543, 'airport')
+       RETURNING id, CURRENT_TIMESTAMP AS started_at`
+    );
+    locationId = location.rows[0].id;
+    startedAt = location.rows[0].started_at;
+  });
+
+  afterAll(async () => {
+    if (locationId) {
+      await db.query(
+        `DELETE FROM metrics WHERE metric_type = 'demand_factor' AND recorded_at >= $1`,
+        [startedAt]
+      );
+      await db.query('DELETE FROM locations WHERE id = $1', [locationId]);
+    }
+    await db.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records demand metrics for every zone after matching', async () => {
+    const matching = jest.spyOn(rideService, 'runBatchMatching').mockResolvedValue([]);
+
+    await batchMatchingJob.run();
+
+    expect(matching).toHaveBeenCalledTimes(1);
+
+    const zone = pricingService.getPricingZone(51.47, -0.4543);
+    const metrics = await db.query(
+      `SELECT value, metadata FROM metrics
+       WHERE metric_type = 'demand_factor' AND recorded_at >= $1
+       AND metadata->>'zone' = $2`,
+      [startedAt, zone]
+    );
+
+    expect(metrics.rows).toHaveLength(1);
+    expect(metrics.rows[0].metadata.label).toContain('Batch Test Airport');
+    expect(metrics.rows[0].metadata.surge_multiplier).toBeGreaterThanOrEqual(1);
+  });
+});
@@ -0,0 +1,86 @@
+import { config } from '../config';
+import { db } from '../database/db';
+import { logger } from '../logger';
+import { rideService } from '../services/rideService';
+import { pricingService } from '../services/pricingService';
+import { MatchResult } from '../models/types';
+
+/**
+ * BATCH MATCHING JOB
+ *
+ * Periodically pools every pending ride request that real-time matching
+ * left behind, then records each pricing zone's demand in the metrics
+ * table. Runs are never overlapped: a tick is skipped while the previous
+ * run is still in progress, in this process or (through a Postgres
+ * advisory lock) in any other API server or worker.
+ */
+
+// Advisory lock key held for the duration of a batch run
+const BATCH_MATCHING_LOCK_KEY = 7301;
+
+export class BatchMatchingJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+
+  public start(): void {
+    const intervalMs = config.matching.batchIntervalMs;
+    if (intervalMs <= 0 || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        logger.error('Batch matching job failed:', error);
+      });
+    }, intervalMs);
+
+    logger.info('Batch matching job scheduled', { intervalMs });
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one batch pass; null if a run is already in progress here or in
+   * another process
+   * Time: O(n²) where n = pending rides, Space: O(n)
+   */
+  public async run(): Promise<MatchResult[] | null> {
+    if (this.running) {
+      logger.debug('Batch matching already in progress, skipping tick');
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const client = await db.getClient();
+      try {
+        const lock = await client.query('SELECT pg_try_advisory_lock($1) AS acquired', [
+          BATCH_MATCHING_LOCK_KEY,
+        ]);
+        if (!lock.rows[0].acquired) {
+          logger.debug('Batch matching running in another process, skipping tick');
+          return null;
+        }
+
+        try {
+          const results = await rideService.runBatchMatching();
+          await pricingService.updateDemandMetrics();
+          return results;
+        } finally {
+          await client.query('SELECT pg_advisory_unlock($1)', [BATCH_MATCHING_LOCK_KEY]);
+        }
+      } finally {
+        client.release();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const batchMatchingJob = new BatchMatchingJob();
@@ -0,0 +1,80 @@
+import os from 'os';
+import { config } from '../config';
+import { logger } from '../logger';
+import { matchingQueue } from '../services/matchingQueue';
+import { rideService } from '../services/rideService';
+
+/**
+ * MATCHING WORKER
+ *
+ * Polls the durable matching queue and runs matching for each claimed
+ * job. Jobs are processed one at a time; a poll is skipped while the
+ * previous one is still running. Runs inside the API process or on its
+ * own via src/worker.ts.
+ */
+
+export class MatchingWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  private readonly workerId = `${os.hostname()}-${process.pid}`;
+
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => {
+        logger.error('Matching worker poll failed:', error);
+      });
+    }, config.matchingQueue.pollIntervalMs);
+
+    logger.info('Matching worker started', {
+      workerId: this.workerId,
+      pollIntervalMs: config.matchingQueue.pollIntervalMs,
+    });
+  }
+
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    // Let the in-flight poll finish so no claimed job is abandoned
+    while (this.polling) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  }
+
+  public async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      await matchingQueue.reclaimStaleJobs();
+
+      const jobs = await matchingQueue.claimJobs(
+        this.workerId,
+        config.matchingQueue.batchSize
+      );
+
+      for (const job of jobs) {
+        try {
+          await rideService.matchRideRequest(job.ride_request_id);
+          await matchingQueue.completeJob(job.id);
+        } catch (error) {
+          await matchingQueue.failJob(job, error as Error);
+        }
+      }
+
+      return jobs.length;
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+export const matchingWorker = new MatchingWorker();
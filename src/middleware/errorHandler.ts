@@ -54,8 +54,37 @@ export class NotFoundError extends Error {
 
 export class ConflictError extends Error {
   statusCode = 409;
-  constructor(message: string) {
+  details?: any;
+  constructor(message: string, details?: any) {
     super(message);
     this.name = 'ConflictError';
+    this.details = details;
+  }
+}
+
+export class PoolUnavailableError extends ConflictError {
+  constructor(message: string, details?: any) {
+    super(message, details);
+    this.name = 'PoolUnavailableError';
+  }
+}
+
+export class InvalidQuoteError extends Error {
+  statusCode = 422;
+  details?: any;
+  constructor(message: string, details?: any) {
+    super(message);
+    this.name = 'InvalidQuoteError';
+    this.details = details;
+  }
+}
+
+export class InvalidPromoError extends Error {
+  statusCode = 422;
+  details?: any;
+  constructor(message: string, details?: any) {
+    super(message);
+    this.name = 'InvalidPromoError';
+    this.details = details;
   }
 }
@@ -1,6 +1,8 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
 
+const promoCode = Joi.string().pattern(/^[A-Za-z0-9_-]+$/).max(50);
+
 export const validateCreateRideRequest = (
   req: Request,
   res: Response,
@@ -14,9 +16,23 @@ export const validateCreateRideRequest = (
     pickup_longitude: Joi.number().min(-180).max(180).required(),
     dropoff_latitude: Joi.number().min(-90).max(90).required(),
     dropoff_longitude: Joi.number().min(-180).max(180).required(),
-    passenger_count: Joi.number().integer().min(1).max(4).required(),
-    luggage_count: Joi.number().integer().min(0).max(4).required(),
+    passenger_count: Joi.number().integer().min(1).max(4).optional(),
+    luggage_count: Joi.number().integer().min(0).max(4).optional(),
     max_detour_km: Joi.number().min(0).max(20).optional(),
+    flight_number: Joi.string()
+      .pattern(/^[A-Z0-9]{2}[A-Z]?\d{1,4}[A-Z]?$/i)
+      .optional()
+      .messages({ 'string.pattern.base': '"flight_number" must be an IATA flight number' }),
+    earliest_pickup_at: Joi.date().iso().optional(),
+    latest_arrival_at: Joi.date()
+      .iso()
+      .when('earliest_pickup_at', {
+        is: Joi.exist(),
+        then: Joi.date().greater(Joi.ref('earliest_pickup_at')),
+      })
+      .optional(),
+    quote_id: Joi.string().uuid().optional(),
+    promo_code: promoCode.optional(),
   });
 
   const { error } = schema.validate(req.body);
@@ -68,3 +84,194 @@ export const validatePagination = (
   req.query = value;
   next();
 };
+
+const vehicleFields = {
+  driver_id: Joi.string().uuid().allow(null),
+  registration_number: Joi.string().trim().max(20),
+  vehicle_class: Joi.string().valid('sedan', 'suv', 'van'),
+  seat_count: Joi.number().integer().min(1).max(16),
+  luggage_capacity: Joi.number().integer().min(0).max(30),
+  accessibility_features: Joi.array().items(Joi.string().max(50)).max(10),
+  status: Joi.string().valid('available', 'assigned', 'in_service', 'offline'),
+  current_latitude: Joi.number().min(-90).max(90).allow(null),
+  current_longitude: Joi.number().min(-180).max(180).allow(null),
+};
+
+const driverFields = {
+  name: Joi.string().trim().max(255),
+  phone: Joi.string().pattern(/^\+?[0-9]{7,15}$/),
+  license_number: Joi.string().trim().max(50),
+  status: Joi.string().valid('active', 'inactive'),
+};
+
+const userFields = {
+  name: Joi.string().trim().max(255),
+  email: Joi.string().email().max(255),
+  phone: Joi.string().pattern(/^\+?[0-9]{7,15}$/),
+  preferred_language: Joi.string()
+    .pattern(/^[a-z]{2,3}(-[A-Z]{2})?$/)
+    .messages({ 'string.pattern.base': '"preferred_language" must be a language tag like pt-BR' }),
+  accessibility_needs: Joi.array().items(Joi.string().max(50)).max(10).unique(),
+  default_passenger_count: Joi.number().integer().min(1).max(4),
+  default_luggage_count: Joi.number().integer().min(0).max(4),
+};
+
+const validateBody = (schema: Joi.ObjectSchema) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const { error } = schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation error',
+        details: error.details.map((d) => d.message),
+      });
+    }
+
+    next();
+  };
+};
+
+export const validateCreateVehicle = validateBody(
+  Joi.object(vehicleFields).fork(
+    ['registration_number', 'vehicle_class', 'seat_count', 'luggage_capacity'],
+    (field) => field.required()
+  )
+);
+
+export const validateUpdateVehicle = validateBody(Joi.object(vehicleFields).min(1));
+
+export const validateCreateUser = validateBody(
+  Joi.object(userFields).fork(['name', 'email', 'phone'], (field) => field.required())
+);
+
+export const validateUpdateUser = validateBody(Joi.object(userFields).min(1));
+
+export const validateCreateDriver = validateBody(
+  Joi.object(driverFields).fork(['name', 'phone', 'license_number'], (field) =>
+    field.required()
+  )
+);
+
+export const validateUpdateDriver = validateBody(Joi.object(driverFields).min(1));
+
+export const validateUpdatePoolStatus = validateBody(
+  Joi.object({
+    status: Joi.string()
+      .valid('forming', 'confirmed', 'in_progress', 'completed', 'cancelled')
+      .required(),
+    vehicle_id: Joi.string().uuid().optional(),
+  })
+);
+
+export const validateCreateQuote = validateBody(
+  Joi.object({
+    user_id: Joi.string().uuid().required(),
+    pickup_location_id: Joi.string().uuid().required(),
+    dropoff_location_id: Joi.string().uuid().required(),
+    pickup_latitude: Joi.number().min(-90).max(90).required(),
+    pickup_longitude: Joi.number().min(-180).max(180).required(),
+    dropoff_latitude: Joi.number().min(-90).max(90).required(),
+    dropoff_longitude: Joi.number().min(-180).max(180).required(),
+    passenger_count: Joi.number().integer().min(1).max(4).required(),
+    luggage_count: Joi.number().integer().min(0).max(4).required(),
+  })
+);
+
+export const validateCreateTariff = validateBody(
+  Joi.object({
+    code: Joi.string().pattern(/^[a-z0-9_-]+$/).max(50).required(),
+    airport_location_id: Joi.string().uuid().optional(),
+    vehicle_class: Joi.string().valid('sedan', 'suv', 'van').optional(),
+    base_fare: Joi.number().min(0).required(),
+    per_km_rate: Joi.number().min(0).required(),
+    per_minute_rate: Joi.number().min(0).optional(),
+    minimum_fare: Joi.number().min(0).optional(),
+    airport_access_fee: Joi.number().min(0).optional(),
+    max_surge_multiplier: Joi.number().min(1).max(9.99).required(),
+    pool_discount_percent: Joi.number().min(0).max(100).required(),
+    pool_pricing_mode: Joi.string().valid('flat_discount', 'cost_sharing').optional(),
+    currency: Joi.string().pattern(/^[A-Z]{3}$/).optional(),
+    tax_lines: Joi.array()
+      .items(
+        Joi.object({
+          code: Joi.string().pattern(/^[a-z0-9_]+$/).max(50).required(),
+          type: Joi.string().valid('percent', 'fixed').required(),
+          rate: Joi.number().min(0).required(),
+        })
+      )
+      .unique('code')
+      .max(10)
+      .optional(),
+    effective_from: Joi.date().iso().optional(),
+    effective_to: Joi.when('effective_from', {
+      is: Joi.exist(),
+      then: Joi.date().iso().greater(Joi.ref('effective_from')),
+      otherwise: Joi.date().iso().greater('now'),
+    }),
+  })
+);
+
+export const validateCreatePromotion = validateBody(
+  Joi.object({
+    code: promoCode.required(),
+    description: Joi.string().max(255).optional(),
+    discount_type: Joi.string().valid('percent', 'fixed').required(),
+    discount_value: Joi.when('discount_type', {
+      is: 'percent',
+      then: Joi.number().greater(0).max(100),
+      otherwise: Joi.number().integer().greater(0),
+    }).required(),
+    max_discount: Joi.number().integer().greater(0).optional(),
+    currency: Joi.string().pattern(/^[A-Z]{3}$/).optional(),
+    max_redemptions: Joi.number().integer().min(1).optional(),
+    max_redemptions_per_user: Joi.number().integer().min(1).optional(),
+    first_pooled_ride_only: Joi.boolean().optional(),
+    valid_from: Joi.date().iso().optional(),
+    valid_until: Joi.when('valid_from', {
+      is: Joi.exist(),
+      then: Joi.date().iso().greater(Joi.ref('valid_from')),
+      otherwise: Joi.date().iso().greater('now'),
+    }),
+  })
+);
+
+export const validateRedeemPromo = validateBody(
+  Joi.object({
+    code: promoCode.required(),
+  })
+);
+
+export const validateGrantCredits = validateBody(
+  Joi.object({
+    amount: Joi.number().integer().greater(0).required(),
+    currency: Joi.string().pattern(/^[A-Z]{3}$/).optional(),
+    reason: Joi.string().max(255).optional(),
+  })
+);
+
+export const validateCreateFareAdjustment = validateBody(
+  Joi.object({
+    adjustment_type: Joi.string()
+      .valid('full_refund', 'partial_refund', 'goodwill_credit')
+      .required(),
+    amount: Joi.when('adjustment_type', {
+      is: 'full_refund',
+      then: Joi.forbidden(),
+      otherwise: Joi.number().integer().greater(0).required(),
+    }),
+    reason_code: Joi.string()
+      .valid(
+        'bad_route',
+        'excessive_detour',
+        'late_pickup',
+        'driver_conduct',
+        'vehicle_condition',
+        'overcharge',
+        'service_complaint',
+        'other'
+      )
+      .required(),
+    actor: Joi.string().max(100).required(),
+    note: Joi.string().max(1000).optional(),
+  })
+);
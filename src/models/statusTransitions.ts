@@ -0,0 +1,66 @@
+import { RideStatus, PoolStatus } from './types';
+import { ConflictError } from '../middleware/errorHandler';
+
+/**
+ * STATUS STATE MACHINES
+ *
+ * Ride:  pending → matched → confirmed → completed
+ *        matched → pending (pool dissolved, re-queued)
+ *        pending | matched | confirmed → cancelled
+ *
+ * Pool:  forming → confirmed → in_progress → completed
+ *        confirmed → forming (vehicle released, pool reopened)
+ *        forming | confirmed | in_progress → cancelled
+ *
+ * completed and cancelled are terminal for both.
+ */
+
+export const RIDE_TRANSITIONS: Record<RideStatus, RideStatus[]> = {
+  pending: ['matched', 'cancelled'],
+  matched: ['confirmed', 'pending', 'cancelled'],
+  confirmed: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export const POOL_TRANSITIONS: Record<PoolStatus, PoolStatus[]> = {
+  forming: ['confirmed', 'cancelled'],
+  confirmed: ['in_progress', 'forming', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransitionRide(from: RideStatus, to: RideStatus): boolean {
+  return RIDE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function canTransitionPool(from: PoolStatus, to: PoolStatus): boolean {
+  return POOL_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throw 409 with the allowed next states if the ride transition is illegal
+ */
+export function assertRideTransition(from: RideStatus, to: RideStatus): void {
+  if (!canTransitionRide(from, to)) {
+    throw new ConflictError(`Cannot change ride status from ${from} to ${to}`, {
+      current_status: from,
+      requested_status: to,
+      allowed_transitions: RIDE_TRANSITIONS[from] || [],
+    });
+  }
+}
+
+/**
+ * Throw 409 with the allowed next states if the pool transition is illegal
+ */
+export function assertPoolTransition(from: PoolStatus, to: PoolStatus): void {
+  if (!canTransitionPool(from, to)) {
+    throw new ConflictError(`Cannot change pool status from ${from} to ${to}`, {
+      current_status: from,
+      requested_status: to,
+      allowed_transitions: POOL_TRANSITIONS[from] || [],
+    });
+  }
+}
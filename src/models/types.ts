@@ -3,6 +3,13 @@ export interface User {
   name: string;
   email: string;
   phone: string;
+  preferred_language: string;
+  // Matched against vehicles' accessibility_features at assignment
+  accessibility_needs: string[];
+  // Used when a ride request leaves passenger_count / luggage_count out
+  default_passenger_count: number;
+  default_luggage_count: number;
+  deleted_at?: Date;
   created_at: Date;
   updated_at: Date;
 }
@@ -21,7 +28,40 @@ export interface Coordinates {
   longitude: number;
 }
 
+export type VehicleClass = 'sedan' | 'suv' | 'van';
+export type VehicleStatus = 'available' | 'assigned' | 'in_service' | 'offline';
+export type DriverStatus = 'active' | 'inactive';
+
+export interface Driver {
+  id: string;
+  name: string;
+  phone: string;
+  license_number: string;
+  status: DriverStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Vehicle {
+  id: string;
+  driver_id?: string;
+  registration_number: string;
+  vehicle_class: VehicleClass;
+  seat_count: number;
+  luggage_capacity: number;
+  accessibility_features: string[];
+  status: VehicleStatus;
+  current_latitude?: number;
+  current_longitude?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export type RideStatus = 'pending' | 'matched' | 'confirmed' | 'cancelled' | 'completed';
+
+// Who or what ended the ride: the rider, the system (pool cancelled by
+// operations) or the rider's absence at pickup
+export type CancellationReason = 'rider' | 'system' | 'no_show';
 export type PoolStatus = 'forming' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
 
 export interface RideRequest {
@@ -33,10 +73,21 @@ export interface RideRequest {
   pickup_longitude: number;
   dropoff_latitude: number;
   dropoff_longitude: number;
+  pickup_geohash?: string;
+  dropoff_geohash?: string;
   passenger_count: number;
   luggage_count: number;
   max_detour_km: number;
+  flight_number?: string;
+  earliest_pickup_at?: Date;
+  latest_arrival_at?: Date;
+  quote_id?: string;
+  // Integer minor units of quote_currency
+  quoted_price?: number;
+  quote_currency?: string;
   status: RideStatus;
+  cancelled_at?: Date;
+  cancellation_reason?: CancellationReason;
   requested_at: Date;
   created_at: Date;
   updated_at: Date;
@@ -50,6 +101,8 @@ export interface RidePool {
   current_luggage_count: number;
   max_passengers: number;
   max_luggage: number;
+  vehicle_class: VehicleClass;
+  vehicle_id?: string;
   estimated_departure?: Date;
   actual_departure?: Date;
   route_distance_km?: number;
@@ -65,23 +118,444 @@ export interface PoolMember {
   pickup_sequence: number;
   dropoff_sequence: number;
   detour_distance_km: number;
+  // Integer minor units
   price: number;
+  match_score?: MatchScore;
   joined_at: Date;
 }
 
+export interface PoolStop {
+  id: string;
+  pool_id: string;
+  ride_request_id: string;
+  stop_sequence: number;
+  stop_type: RouteStopType;
+  latitude: number;
+  longitude: number;
+  planned_arrival_at?: Date;
+  cumulative_distance_km: number;
+  created_at: Date;
+}
+
+export type MatchingJobStatus = 'queued' | 'processing' | 'completed' | 'dead';
+
+export interface MatchingJob {
+  id: string;
+  ride_request_id: string;
+  status: MatchingJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at?: Date;
+  locked_by?: string;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type FareQuoteStatus = 'active' | 'used';
+
+export interface FareQuote {
+  id: string;
+  user_id: string;
+  pickup_location_id: string;
+  dropoff_location_id: string;
+  pickup_latitude: number;
+  pickup_longitude: number;
+  dropoff_latitude: number;
+  dropoff_longitude: number;
+  passenger_count: number;
+  luggage_count: number;
+  // Integer minor units of currency
+  quoted_price: number;
+  currency: string;
+  surge_multiplier: number;
+  status: FareQuoteStatus;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PoolPricingMode = 'flat_discount' | 'cost_sharing';
+
+/**
+ * A tax or levy added to the fare: a percent of the fare after the pool
+ * discount, or a fixed amount (major units) per ride
+ */
+export interface TaxLineConfig {
+  code: string;
+  type: 'percent' | 'fixed';
+  rate: number;
+}
+
+export interface Tariff {
+  id: string | null;
+  code: string;
+  version: number;
+  airport_location_id?: string;
+  vehicle_class?: VehicleClass;
+  base_fare: number;
+  per_km_rate: number;
+  per_minute_rate: number;
+  minimum_fare: number;
+  airport_access_fee: number;
+  max_surge_multiplier: number;
+  pool_discount_percent: number;
+  pool_pricing_mode: PoolPricingMode;
+  currency: string;
+  // null: config.pricing.taxLines apply
+  tax_lines: TaxLineConfig[] | null;
+  effective_from: Date;
+  effective_to?: Date;
+  created_at?: Date;
+}
+
+export interface CreateTariffDTO {
+  code: string;
+  airport_location_id?: string;
+  vehicle_class?: VehicleClass;
+  base_fare: number;
+  per_km_rate: number;
+  per_minute_rate?: number;
+  minimum_fare?: number;
+  airport_access_fee?: number;
+  max_surge_multiplier: number;
+  pool_discount_percent: number;
+  pool_pricing_mode?: PoolPricingMode;
+  currency?: string;
+  tax_lines?: TaxLineConfig[];
+  effective_from?: string;
+  effective_to?: string;
+}
+
+export type PromotionDiscountType = 'percent' | 'fixed';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  discount_type: PromotionDiscountType;
+  // Percent off, or integer minor units of currency for fixed
+  discount_value: number;
+  // Integer minor units of currency
+  max_discount?: number;
+  currency: string;
+  max_redemptions?: number;
+  max_redemptions_per_user: number;
+  first_pooled_ride_only: boolean;
+  redemption_count: number;
+  valid_from: Date;
+  valid_until?: Date;
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePromotionDTO {
+  code: string;
+  description?: string;
+  discount_type: PromotionDiscountType;
+  discount_value: number;
+  max_discount?: number;
+  currency?: string;
+  max_redemptions?: number;
+  max_redemptions_per_user?: number;
+  first_pooled_ride_only?: boolean;
+  valid_from?: string;
+  valid_until?: string;
+}
+
+export type PromoRedemptionStatus = 'applied' | 'reversed';
+
+export interface PromoRedemption {
+  id: string;
+  promotion_id: string;
+  user_id: string;
+  ride_request_id: string;
+  // Integer minor units of currency
+  discount_amount: number;
+  currency: string;
+  status: PromoRedemptionStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreditTransaction {
+  id: string;
+  user_id: string;
+  ride_request_id?: string;
+  // Integer minor units of currency
+  amount: number;
+  currency: string;
+  reason?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RiderCredits {
+  user_id: string;
+  // Integer minor units of currency
+  balance: number;
+  currency: string;
+  transactions: CreditTransaction[];
+}
+
+export type ChargeType = 'cancellation_fee' | 'no_show_fee';
+
+export type ChargeStatus = 'pending' | 'waived';
+
+export type CancellationPolicyRule =
+  | 'system'
+  | 'free_window'
+  | 'not_matched'
+  | 'after_match'
+  | 'after_dispatch'
+  | 'no_show';
+
+export interface CancellationFee {
+  charge_type: ChargeType;
+  // Integer minor units of currency
+  amount: number;
+  currency: string;
+  waived: boolean;
+  rule: CancellationPolicyRule;
+}
+
+export interface Charge {
+  id: string;
+  ride_request_id: string;
+  user_id: string;
+  charge_type: ChargeType;
+  amount: number;
+  currency: string;
+  status: ChargeStatus;
+  policy_rule: CancellationPolicyRule;
+  ride_status: RideStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type LedgerJournalType =
+  | 'ride_fare'
+  | 'cancellation_fee'
+  | 'no_show_fee'
+  | 'refund'
+  | 'goodwill_credit';
+
+export type LedgerAccount =
+  | 'rider_receivable'
+  | 'fare_revenue'
+  | 'airport_fees_payable'
+  | 'taxes_payable'
+  | 'pool_discounts'
+  | 'quote_adjustments'
+  | 'promotions_expense'
+  | 'rider_credits'
+  | 'cancellation_fee_revenue'
+  | 'no_show_fee_revenue'
+  | 'refunds'
+  | 'goodwill_expense';
+
+export interface LedgerEntry {
+  id: string;
+  journal_id: string;
+  journal_type: LedgerJournalType;
+  ride_request_id: string;
+  pool_id?: string;
+  user_id: string;
+  account: LedgerAccount;
+  // Integer minor units of currency
+  debit: number;
+  credit: number;
+  currency: string;
+  description?: string;
+  created_at: Date;
+}
+
+/**
+ * One receipt line: a ledger entry seen from the rider's side
+ * Positive amounts are charges, negative amounts reduce the total (minor units)
+ */
+export interface ReceiptLine {
+  journal_type: LedgerJournalType;
+  account: LedgerAccount;
+  description: string;
+  amount: number;
+  posted_at: Date;
+}
+
+export interface Receipt {
+  ride_request_id: string;
+  user_id: string;
+  pool_id: string | null;
+  ride_status: RideStatus;
+  currency: string;
+  lines: ReceiptLine[];
+  total_charged: number;
+  credits_issued: number;
+  adjustments: FareAdjustment[];
+  issued_at: Date;
+}
+
+export type FareAdjustmentType = 'full_refund' | 'partial_refund' | 'goodwill_credit';
+
+export type AdjustmentReasonCode =
+  | 'bad_route'
+  | 'excessive_detour'
+  | 'late_pickup'
+  | 'driver_conduct'
+  | 'vehicle_condition'
+  | 'overcharge'
+  | 'service_complaint'
+  | 'other';
+
+export interface FareAdjustment {
+  id: string;
+  ride_request_id: string;
+  user_id: string;
+  adjustment_type: FareAdjustmentType;
+  // Integer minor units of currency
+  amount: number;
+  currency: string;
+  reason_code: AdjustmentReasonCode;
+  actor: string;
+  note?: string;
+  journal_id: string;
+  created_at: Date;
+}
+
+export interface CreateFareAdjustmentDTO {
+  adjustment_type: FareAdjustmentType;
+  // Minor units; required for partial_refund and goodwill_credit. A full
+  // refund takes whatever remains of the amount charged
+  amount?: number;
+  reason_code: AdjustmentReasonCode;
+  actor: string;
+  note?: string;
+}
+
+export interface PoolReconciliationMember {
+  ride_request_id: string;
+  user_id: string;
+  charged: number;
+  // Price on the member's pool_members row
+  expected_charge: number;
+  promo_discount: number;
+  credits_applied: number;
+  revenue: number;
+}
+
+/**
+ * Completed pool's books: what members were charged (including promo and
+ * credits funding) against the pool's net fare revenue, and against the
+ * prices the pool recorded for them
+ */
+export interface PoolReconciliation {
+  pool_id: string;
+  member_count: number;
+  currency: string;
+  pool_revenue: number;
+  member_charges: number;
+  expected_charges: number;
+  difference: number;
+  balanced: boolean;
+  members: PoolReconciliationMember[];
+  reconciled_at: Date;
+}
+
+export interface ZoneSurge {
+  zone: string;
+  label: string | null;
+  demand_factor: number;
+  surge_multiplier: number;
+  pending_requests: number;
+  forming_pools: number;
+  available_vehicles: number;
+  demand_supply_ratio: number;
+}
+
+export type PriceLineType = 'fare' | 'surge' | 'discount' | 'fee' | 'tax' | 'credit';
+
+/**
+ * One itemized price line in integer minor units; discounts and credits
+ * are negative. A price's lines always sum to its final_price
+ */
+export interface PriceLine {
+  type: PriceLineType;
+  code: string;
+  label: string;
+  amount: number;
+}
+
+/**
+ * A stored price; money columns are integer minor units of currency
+ */
 export interface PricingHistory {
   id: string;
   ride_request_id: string;
+  currency: string;
   base_fare: number;
   distance_fare: number;
+  time_fare: number;
+  subtotal: number;
   surge_multiplier: number;
+  surge_amount: number;
   pool_discount: number;
+  airport_fee: number;
+  tax_total: number;
+  quote_adjustment: number;
+  promo_discount: number;
+  credits_applied: number;
   final_price: number;
+  lines: PriceLine[];
   demand_factor: number;
+  tariff_id?: string;
+  tariff_version?: number;
+  pricing_mode: PoolPricingMode;
+  cost_share?: CostShareBreakdown;
   calculated_at: Date;
 }
 
+/**
+ * One member's share of a pool's route cost (cost_sharing mode)
+ * Each route leg is split among the riders on board by passenger count;
+ * money fields are integer minor units
+ */
+export interface CostShareBreakdown {
+  route_km: number;
+  ride_km: number;
+  shared_km: number;
+  share_km: number;
+  base_share: number;
+  distance_share: number;
+  time_share: number;
+  detour_km: number;
+  detour_compensation: number;
+  shared_cost: number;
+  solo_cost: number;
+  capped_at_solo: boolean;
+}
+
 export interface CreateRideRequestDTO {
+  user_id: string;
+  pickup_location_id: string;
+  dropoff_location_id: string;
+  pickup_latitude: number;
+  pickup_longitude: number;
+  dropoff_latitude: number;
+  dropoff_longitude: number;
+  // Default to the rider's profile
+  passenger_count?: number;
+  luggage_count?: number;
+  max_detour_km?: number;
+  flight_number?: string;
+  earliest_pickup_at?: string;
+  latest_arrival_at?: string;
+  quote_id?: string;
+  promo_code?: string;
+}
+
+export interface CreateFareQuoteDTO {
   user_id: string;
   pickup_location_id: string;
   dropoff_location_id: string;
@@ -91,12 +565,115 @@ export interface CreateRideRequestDTO {
   dropoff_longitude: number;
   passenger_count: number;
   luggage_count: number;
+}
+
+export type RouteStopType = 'pickup' | 'dropoff';
+
+export interface PlannedStop {
+  ride_request_id: string;
+  stop_type: RouteStopType;
+  latitude: number;
+  longitude: number;
+  sequence: number;
+  cumulative_distance_km: number;
+}
+
+export interface RoutePlan {
+  stops: PlannedStop[];
+  detours: Map<string, number>;
+  total_distance_km: number;
+  estimated_duration_minutes: number;
+}
+
+export interface CreateVehicleDTO {
+  driver_id?: string;
+  registration_number: string;
+  vehicle_class: VehicleClass;
+  seat_count: number;
+  luggage_capacity: number;
+  accessibility_features?: string[];
+  status?: VehicleStatus;
+  current_latitude?: number;
+  current_longitude?: number;
+}
+
+export interface CreateUserDTO {
+  name: string;
+  email: string;
+  phone: string;
+  preferred_language?: string;
+  accessibility_needs?: string[];
+  default_passenger_count?: number;
+  default_luggage_count?: number;
+}
+
+export interface CreateDriverDTO {
+  name: string;
+  phone: string;
+  license_number: string;
+  status?: DriverStatus;
+}
+
+export type MatchScoreFactor = 'vehicle_km' | 'max_detour' | 'utilization' | 'revenue';
+
+export type ScoringWeights = Record<MatchScoreFactor, number>;
+
+export interface MatchScoreComponent {
+  value: number;
+  weight: number;
+  contribution: number;
+}
+
+export interface MatchScore {
+  strategy: string;
+  total: number;
+  factors: Record<MatchScoreFactor, MatchScoreComponent>;
+}
+
+export type MatchConstraint =
+  | 'capacity'
+  | 'luggage'
+  | 'location_compatibility'
+  | 'route'
+  | 'detour'
+  | 'time_window';
+
+export interface MatchRejection {
+  constraint: MatchConstraint;
+  message: string;
+  ride_request_id?: string;
+  user_id?: string;
+  detour_km?: number;
   max_detour_km?: number;
 }
 
+export interface MatchCandidateExplanation {
+  pool_id: string;
+  pool_code: string;
+  pool_status: PoolStatus;
+  member_count: number;
+  accepted: boolean;
+  score?: MatchScore;
+  rejection?: MatchRejection;
+}
+
+export interface MatchExplanation {
+  ride_request_id: string;
+  ride_status: RideStatus;
+  current_pool_id: string | null;
+  strategy: string;
+  outcome: 'join_pool' | 'new_pool';
+  best_pool_id: string | null;
+  candidates_considered: number;
+  accepted: MatchCandidateExplanation[];
+  rejected: MatchCandidateExplanation[];
+}
+
 export interface MatchResult {
   pool: RidePool;
   members: PoolMember[];
+  // Minor units
   total_savings: number;
   average_detour_km: number;
+  score?: MatchScore;
 }
@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { matchingQueue } from '../services/matchingQueue';
+import { validateUUID } from '../middleware/validation';
+import { asyncHandler } from '../middleware/errorHandler';
+import { logger } from '../logger';
+
+const router = Router();
+
+/**
+ * GET /api/matching/queue
+ * Queue depth per status and dead-lettered jobs (admin)
+ */
+router.get(
+  '/queue',
+  asyncHandler(async (req: Request, res: Response) => {
+    const stats = await matchingQueue.getStats();
+    const failedJobs = await matchingQueue.getFailedJobs();
+
+    res.json({
+      success: true,
+      data: {
+        depth: stats.counts.queued + stats.counts.processing,
+        counts: stats.counts,
+        oldest_queued_age_seconds: stats.oldest_queued_age_seconds,
+        failed_jobs: failedJobs,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/matching/queue/:id/retry
+ * Re-queue a dead-lettered job (admin)
+ */
+router.post(
+  '/queue/:id/retry',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const job = await matchingQueue.retryJob(req.params.id);
+
+    logger.info('Matching job re-queued', { jobId: job.id });
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  })
+);
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router, Request, Response } from 'express';
 import { poolService } from '../services/poolService';
-import { validateUUID } from '../middleware/validation';
-import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { ledgerService } from '../services/ledgerService';
+import { validateUUID, validateUpdatePoolStatus } from '../middleware/validation';
+import { asyncHandler, ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { batchMatchingJob } from '../jobs/batchMatchingJob';
 import { logger } from '../logger';
+import { poolRouteToGeoJSON } from '../utils/geojson';
 
 const router = Router();
 
@@ -29,6 +32,62 @@ router.get(
   })
 );
 
+/**
+ * GET /api/pools/:id/route
+ * Get the ordered route stops (JSON + GeoJSON)
+ * ?format=geojson returns the bare FeatureCollection
+ */
+router.get(
+  '/:id/route',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    const stops = await poolService.getPoolRoute(id);
+
+    if (!stops) {
+      throw new NotFoundError('Pool not found');
+    }
+
+    const geojson = poolRouteToGeoJSON(id, stops);
+
+    if (req.query.format === 'geojson') {
+      res.type('application/geo+json').send(JSON.stringify(geojson));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        pool_id: id,
+        stops,
+        geojson,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/pools/:id/reconciliation
+ * Completed pool's books: member charges against the pool's fare revenue
+ */
+router.get(
+  '/:id/reconciliation',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const reconciliation = await ledgerService.getPoolReconciliation(req.params.id);
+
+    if (!reconciliation) {
+      throw new NotFoundError('Reconciliation not found: the pool has not completed');
+    }
+
+    res.json({
+      success: true,
+      data: reconciliation,
+    });
+  })
+);
+
 /**
  * GET /api/pools
  * Get all active pools
@@ -48,6 +107,40 @@ router.get(
   })
 );
 
+/**
+ * POST /api/pools/batch-match
+ * Pool all pending ride requests in one pass (admin); 409 while a
+ * scheduled or other admin run is in progress
+ */
+router.post(
+  '/batch-match',
+  asyncHandler(async (req: Request, res: Response) => {
+    const startTime = Date.now();
+
+    const results = await batchMatchingJob.run();
+    if (!results) {
+      throw new ConflictError('Batch matching is already running');
+    }
+
+    const totalSavings = results.reduce((sum, r) => sum + r.total_savings, 0);
+    const averageDetour =
+      results.length > 0
+        ? results.reduce((sum, r) => sum + r.average_detour_km, 0) / results.length
+        : 0;
+
+    res.json({
+      success: true,
+      data: results,
+      meta: {
+        pools_created: results.length,
+        total_savings: totalSavings,
+        average_detour_km: parseFloat(averageDetour.toFixed(2)),
+        response_time_ms: Date.now() - startTime,
+      },
+    });
+  })
+);
+
 /**
  * POST /api/pools/:poolId/members/:rideRequestId
  * Add member to pool (manual matching)
@@ -94,24 +187,17 @@ router.delete(
 
 /**
  * PATCH /api/pools/:id/status
- * Update pool status
+ * Update pool status (optional vehicle_id when confirming)
  */
 router.patch(
   '/:id/status',
   validateUUID('id'),
+  validateUpdatePoolStatus,
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { status } = req.body;
-
-    const validStatuses = ['forming', 'confirmed', 'in_progress', 'completed', 'cancelled'];
-    if (!validStatuses.includes(status)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid status',
-      });
-    }
+    const { status, vehicle_id } = req.body;
 
-    const updatedPool = await poolService.updatePoolStatus(id, status);
+    const updatedPool = await poolService.updatePoolStatus(id, status, vehicle_id);
 
     res.json({
       success: true,
@@ -1,14 +1,44 @@
 import { Router, Request, Response } from 'express';
 import { rideService } from '../services/rideService';
 import { pricingService } from '../services/pricingService';
+import { ledgerService } from '../services/ledgerService';
 import { validateUUID } from '../middleware/validation';
 import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { ZoneSurge } from '../models/types';
 
 const router = Router();
 
+/**
+ * GET /api/pricing/surge
+ * Current surge multiplier, demand and supply by pickup zone
+ */
+router.get(
+  '/surge',
+  asyncHandler(async (req: Request, res: Response) => {
+    const surges = await pricingService.getZoneSurges();
+
+    const zones: Record<string, Omit<ZoneSurge, 'zone'>> = {};
+    for (const { zone, ...surge } of surges) {
+      zones[zone] = surge;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        zones,
+      },
+      meta: {
+        zone_count: surges.length,
+      },
+    });
+  })
+);
+
 /**
  * GET /api/pricing/:rideRequestId
- * Get pricing for a ride request
+ * Get pricing for a ride request; cost_share is the member's route cost
+ * breakdown from its latest pooled price under a cost_sharing tariff;
+ * adjustments are refunds and goodwill credits made by ops
  */
 router.get(
   '/:rideRequestId',
@@ -27,12 +57,18 @@ router.get(
     // Calculate current price
     const currentPrice = await pricingService.calculatePrice(rideRequest, false, 1);
 
+    // Refunds and goodwill credits made after the ride was charged
+    const adjustments = await ledgerService.getAdjustments(rideRequestId);
+
     res.json({
       success: true,
       data: {
         ride_request_id: rideRequestId,
         current_pricing: currentPrice,
         pricing_history: history,
+        pricing_mode: history ? history.pricing_mode : currentPrice.pricing_mode,
+        cost_share: history?.cost_share || null,
+        adjustments,
       },
     });
   })
@@ -73,6 +109,7 @@ router.post(
       data: {
         solo_ride: soloPrice,
         pooled_ride: pooledPrice,
+        currency: soloPrice.currency,
         savings: soloPrice.final_price - pooledPrice.final_price,
         savings_percent: (
           ((soloPrice.final_price - pooledPrice.final_price) / soloPrice.final_price) *
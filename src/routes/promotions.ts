@@ -0,0 +1,109 @@
+import { Router, Request, Response } from 'express';
+import { promotionService } from '../services/promotionService';
+import {
+  validateUUID,
+  validateCreatePromotion,
+  validateGrantCredits,
+} from '../middleware/validation';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * GET /api/promotions
+ * List promotions
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotions = await promotionService.listPromotions();
+
+    res.json({
+      success: true,
+      data: promotions,
+      meta: {
+        count: promotions.length,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/promotions
+ * Create a promo code
+ */
+router.post(
+  '/',
+  validateCreatePromotion,
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotion = await promotionService.createPromotion(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: promotion,
+    });
+  })
+);
+
+/**
+ * GET /api/promotions/credits/:userId
+ * Get a rider's credit balance and recent credit transactions
+ */
+router.get(
+  '/credits/:userId',
+  validateUUID('userId'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const credits = await promotionService.getCredits(req.params.userId);
+
+    res.json({
+      success: true,
+      data: credits,
+    });
+  })
+);
+
+/**
+ * POST /api/promotions/credits/:userId
+ * Grant credits to a rider
+ */
+router.post(
+  '/credits/:userId',
+  validateUUID('userId'),
+  validateGrantCredits,
+  asyncHandler(async (req: Request, res: Response) => {
+    const credits = await promotionService.grantCredits(
+      req.params.userId,
+      req.body.amount,
+      req.body.currency,
+      req.body.reason
+    );
+
+    res.status(201).json({
+      success: true,
+      data: credits,
+    });
+  })
+);
+
+/**
+ * GET /api/promotions/:id
+ * Get a promotion
+ */
+router.get(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const promotion = await promotionService.getPromotion(req.params.id);
+
+    if (!promotion) {
+      throw new NotFoundError('Promotion not found');
+    }
+
+    res.json({
+      success: true,
+      data: promotion,
+    });
+  })
+);
+
+export default router;
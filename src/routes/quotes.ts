@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { quoteService } from '../services/quoteService';
+import { validateUUID, validateCreateQuote } from '../middleware/validation';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * POST /api/quotes
+ * Issue a fare quote; pass its id as quote_id when requesting the ride
+ */
+router.post(
+  '/',
+  validateCreateQuote,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { quote, pricing } = await quoteService.createQuote(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        quote,
+        pricing,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/quotes/:id
+ * Get a fare quote
+ */
+router.get(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const quote = await quoteService.getQuote(req.params.id);
+
+    if (!quote) {
+      throw new NotFoundError('Fare quote not found');
+    }
+
+    res.json({
+      success: true,
+      data: quote,
+    });
+  })
+);
+
+export default router;
@@ -1,8 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { rideService } from '../services/rideService';
 import { pricingService } from '../services/pricingService';
-import { validateCreateRideRequest, validateUUID } from '../middleware/validation';
-import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { promotionService } from '../services/promotionService';
+import { chargeService } from '../services/chargeService';
+import { ledgerService } from '../services/ledgerService';
+import { renderReceiptText, renderReceiptHtml } from '../utils/receipt';
+import {
+  validateCreateRideRequest,
+  validateUUID,
+  validateRedeemPromo,
+  validateCreateFareAdjustment,
+} from '../middleware/validation';
+import { asyncHandler, NotFoundError, BadRequestError } from '../middleware/errorHandler';
 import { logger } from '../logger';
 
 const router = Router();
@@ -41,6 +50,24 @@ router.post(
   })
 );
 
+/**
+ * POST /api/rides/preview
+ * Dry-run matching and pricing for a ride before it is booked
+ * Takes the same body as POST /api/rides/request; nothing is written
+ */
+router.post(
+  '/preview',
+  validateCreateRideRequest,
+  asyncHandler(async (req: Request, res: Response) => {
+    const preview = await rideService.previewRideRequest(req.body);
+
+    res.json({
+      success: true,
+      data: preview,
+    });
+  })
+);
+
 /**
  * GET /api/rides/:id
  * Get ride request details
@@ -64,9 +91,45 @@ router.get(
   })
 );
 
+/**
+ * GET /api/rides/:id/match-explanation
+ * Explain which candidate pools matching would accept or reject, and why
+ */
+router.get(
+  '/:id/match-explanation',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const explanation = await rideService.explainMatch(req.params.id);
+
+    res.json({
+      success: true,
+      data: explanation,
+    });
+  })
+);
+
+/**
+ * POST /api/rides/:id/promo
+ * Apply a promo code to a pending ride; repeating the call is a no-op
+ */
+router.post(
+  '/:id/promo',
+  validateUUID('id'),
+  validateRedeemPromo,
+  asyncHandler(async (req: Request, res: Response) => {
+    const redemption = await promotionService.redeemPromo(req.params.id, req.body.code);
+
+    res.json({
+      success: true,
+      data: redemption,
+    });
+  })
+);
+
 /**
  * POST /api/rides/:id/cancel
- * Cancel a ride request
+ * Cancel a ride request on the rider's behalf; the response carries the
+ * cancellation charge
  */
 router.post(
   '/:id/cancel',
@@ -74,18 +137,125 @@ router.post(
   asyncHandler(async (req: Request, res: Response) => {
     const { id } = req.params;
 
-    const cancelledRide = await rideService.cancelRideRequest(id);
+    const { ride, charge } = await rideService.cancelRideRequest(id);
 
-    logger.info('Ride cancelled', { rideRequestId: id });
+    logger.info('Ride cancelled', { rideRequestId: id, charge: charge.amount });
 
     res.json({
       success: true,
-      data: cancelledRide,
+      data: { ...ride, cancellation_charge: charge },
       message: 'Ride request cancelled successfully',
     });
   })
 );
 
+/**
+ * POST /api/rides/:id/no-show
+ * Report the rider absent at pickup; cancels the ride with the no-show fee
+ */
+router.post(
+  '/:id/no-show',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { ride, charge } = await rideService.reportNoShow(req.params.id);
+
+    res.json({
+      success: true,
+      data: { ...ride, cancellation_charge: charge },
+      message: 'No-show recorded',
+    });
+  })
+);
+
+/**
+ * GET /api/rides/:id/charges
+ * Cancellation and no-show charges recorded for a ride
+ */
+router.get(
+  '/:id/charges',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const charges = await chargeService.getCharges(req.params.id);
+
+    res.json({
+      success: true,
+      data: charges,
+      meta: {
+        count: charges.length,
+      },
+    });
+  })
+);
+
+/**
+ * GET /api/rides/:id/receipt
+ * Itemized receipt from the fare ledger (?format=json|text|html)
+ */
+router.get(
+  '/:id/receipt',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const format = req.query.format || 'json';
+    if (!['json', 'text', 'html'].includes(format as string)) {
+      throw new BadRequestError('format must be one of json, text, html');
+    }
+
+    const receipt = await ledgerService.getReceipt(req.params.id);
+
+    if (format === 'text') {
+      res.type('text/plain').send(renderReceiptText(receipt));
+      return;
+    }
+    if (format === 'html') {
+      res.type('text/html').send(renderReceiptHtml(receipt));
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: receipt,
+    });
+  })
+);
+
+/**
+ * POST /api/rides/:id/adjustments
+ * Refund (full or partial) or credit a charged ride (ops)
+ */
+router.post(
+  '/:id/adjustments',
+  validateUUID('id'),
+  validateCreateFareAdjustment,
+  asyncHandler(async (req: Request, res: Response) => {
+    const adjustment = await ledgerService.createAdjustment(req.params.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: adjustment,
+    });
+  })
+);
+
+/**
+ * GET /api/rides/:id/adjustments
+ * Refunds and goodwill credits recorded for a ride
+ */
+router.get(
+  '/:id/adjustments',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const adjustments = await ledgerService.getAdjustments(req.params.id);
+
+    res.json({
+      success: true,
+      data: adjustments,
+      meta: {
+        count: adjustments.length,
+      },
+    });
+  })
+);
+
 /**
  * GET /api/rides/user/:userId
  * Get all rides for a user
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from 'express';
+import { tariffService } from '../services/tariffService';
+import { validateUUID, validateCreateTariff } from '../middleware/validation';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * GET /api/tariffs
+ * List tariff versions (?code=default&active=true)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const tariffs = await tariffService.listTariffs({
+      code: req.query.code as string | undefined,
+      active: req.query.active === 'true',
+    });
+
+    res.json({
+      success: true,
+      data: tariffs,
+      meta: {
+        count: tariffs.length,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/tariffs
+ * Publish a new version of a tariff plan; the previous version ends
+ * when this one takes effect
+ */
+router.post(
+  '/',
+  validateCreateTariff,
+  asyncHandler(async (req: Request, res: Response) => {
+    const tariff = await tariffService.createTariff(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: tariff,
+    });
+  })
+);
+
+/**
+ * GET /api/tariffs/:id
+ * Get a tariff version
+ */
+router.get(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const tariff = await tariffService.getTariff(req.params.id);
+
+    if (!tariff) {
+      throw new NotFoundError('Tariff not found');
+    }
+
+    res.json({
+      success: true,
+      data: tariff,
+    });
+  })
+);
+
+export default router;
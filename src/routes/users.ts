@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import { userService } from '../services/userService';
+import { validateUUID, validateCreateUser, validateUpdateUser } from '../middleware/validation';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+
+const router = Router();
+
+/**
+ * GET /api/users
+ * List active users (?email=jane@example.com)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const users = await userService.listUsers({
+      email: req.query.email as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: users,
+      meta: {
+        count: users.length,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/users
+ * Create a user with their rider profile
+ */
+router.post(
+  '/',
+  validateCreateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.createUser(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: user,
+    });
+  })
+);
+
+/**
+ * GET /api/users/:id
+ * Get user details
+ */
+router.get(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.getUser(req.params.id);
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  })
+);
+
+/**
+ * PUT /api/users/:id
+ * Update a user's contact details or rider profile
+ */
+router.put(
+  '/:id',
+  validateUUID('id'),
+  validateUpdateUser,
+  asyncHandler(async (req: Request, res: Response) => {
+    const user = await userService.updateUser(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: user,
+    });
+  })
+);
+
+/**
+ * DELETE /api/users/:id
+ * Soft-delete a user; their active rides are cancelled without a fee
+ */
+router.delete(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const deletion = await userService.deleteUser(req.params.id);
+
+    res.json({
+      success: true,
+      data: deletion,
+    });
+  })
+);
+
+export default router;
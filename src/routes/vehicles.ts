@@ -0,0 +1,206 @@
+import { Router, Request, Response } from 'express';
+import { vehicleService } from '../services/vehicleService';
+import {
+  validateUUID,
+  validateCreateVehicle,
+  validateUpdateVehicle,
+  validateCreateDriver,
+  validateUpdateDriver,
+} from '../middleware/validation';
+import { asyncHandler, NotFoundError } from '../middleware/errorHandler';
+import { logger } from '../logger';
+
+const router = Router();
+
+/**
+ * GET /api/vehicles/drivers
+ * List drivers
+ */
+router.get(
+  '/drivers',
+  asyncHandler(async (req: Request, res: Response) => {
+    const drivers = await vehicleService.listDrivers();
+
+    res.json({
+      success: true,
+      data: drivers,
+      meta: {
+        count: drivers.length,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/vehicles/drivers
+ * Create a driver
+ */
+router.post(
+  '/drivers',
+  validateCreateDriver,
+  asyncHandler(async (req: Request, res: Response) => {
+    const driver = await vehicleService.createDriver(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: driver,
+    });
+  })
+);
+
+/**
+ * GET /api/vehicles/drivers/:id
+ * Get driver details
+ */
+router.get(
+  '/drivers/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const driver = await vehicleService.getDriver(req.params.id);
+
+    if (!driver) {
+      throw new NotFoundError('Driver not found');
+    }
+
+    res.json({
+      success: true,
+      data: driver,
+    });
+  })
+);
+
+/**
+ * PUT /api/vehicles/drivers/:id
+ * Update a driver
+ */
+router.put(
+  '/drivers/:id',
+  validateUUID('id'),
+  validateUpdateDriver,
+  asyncHandler(async (req: Request, res: Response) => {
+    const driver = await vehicleService.updateDriver(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: driver,
+    });
+  })
+);
+
+/**
+ * DELETE /api/vehicles/drivers/:id
+ * Delete a driver
+ */
+router.delete(
+  '/drivers/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await vehicleService.deleteDriver(req.params.id);
+
+    logger.info('Driver deleted', { driverId: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Driver deleted successfully',
+    });
+  })
+);
+
+/**
+ * GET /api/vehicles
+ * List vehicles (?status=available&vehicle_class=van)
+ */
+router.get(
+  '/',
+  asyncHandler(async (req: Request, res: Response) => {
+    const vehicles = await vehicleService.listVehicles({
+      status: req.query.status as string | undefined,
+      vehicle_class: req.query.vehicle_class as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: vehicles,
+      meta: {
+        count: vehicles.length,
+      },
+    });
+  })
+);
+
+/**
+ * POST /api/vehicles
+ * Create a vehicle
+ */
+router.post(
+  '/',
+  validateCreateVehicle,
+  asyncHandler(async (req: Request, res: Response) => {
+    const vehicle = await vehicleService.createVehicle(req.body);
+
+    res.status(201).json({
+      success: true,
+      data: vehicle,
+    });
+  })
+);
+
+/**
+ * GET /api/vehicles/:id
+ * Get vehicle details
+ */
+router.get(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const vehicle = await vehicleService.getVehicle(req.params.id);
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    res.json({
+      success: true,
+      data: vehicle,
+    });
+  })
+);
+
+/**
+ * PUT /api/vehicles/:id
+ * Update a vehicle
+ */
+router.put(
+  '/:id',
+  validateUUID('id'),
+  validateUpdateVehicle,
+  asyncHandler(async (req: Request, res: Response) => {
+    const vehicle = await vehicleService.updateVehicle(req.params.id, req.body);
+
+    res.json({
+      success: true,
+      data: vehicle,
+    });
+  })
+);
+
+/**
+ * DELETE /api/vehicles/:id
+ * Delete a vehicle not serving an active pool
+ */
+router.delete(
+  '/:id',
+  validateUUID('id'),
+  asyncHandler(async (req: Request, res: Response) => {
+    await vehicleService.deleteVehicle(req.params.id);
+
+    logger.info('Vehicle deleted', { vehicleId: req.params.id });
+
+    res.json({
+      success: true,
+      message: 'Vehicle deleted successfully',
+    });
+  })
+);
+
+export default router;
@@ -12,11 +12,19 @@ import { logger } from './logger';
 import { db } from './database/db';
 import { redis } from './database/redis';
 import { errorHandler } from './middleware/errorHandler';
+import { batchMatchingJob } from './jobs/batchMatchingJob';
+import { matchingWorker } from './jobs/matchingWorker';
 
 // Import routes
 import ridesRouter from './routes/rides';
 import poolsRouter from './routes/pools';
 import pricingRouter from './routes/pricing';
+import vehiclesRouter from './routes/vehicles';
+import matchingRouter from './routes/matching';
+import quotesRouter from './routes/quotes';
+import tariffsRouter from './routes/tariffs';
+import promotionsRouter from './routes/promotions';
+import usersRouter from './routes/users';
 
 /**
  * EXPRESS SERVER WITH PRODUCTION-READY MIDDLEWARE
@@ -130,6 +138,12 @@ export class Server {
     this.app.use('/api/rides', ridesRouter);
     this.app.use('/api/pools', poolsRouter);
     this.app.use('/api/pricing', pricingRouter);
+    this.app.use('/api/vehicles', vehiclesRouter);
+    this.app.use('/api/matching', matchingRouter);
+    this.app.use('/api/quotes', quotesRouter);
+    this.app.use('/api/tariffs', tariffsRouter);
+    this.app.use('/api/promotions', promotionsRouter);
+    this.app.use('/api/users', usersRouter);
 
     // Root route
     this.app.get('/', (_req: Request, res: Response) => {
@@ -182,6 +196,13 @@ export class Server {
       }
       logger.info('Database connected');
 
+      // Consume the matching queue and schedule batch matching here
+      // unless a separate worker does
+      if (config.matchingQueue.runInProcess) {
+        matchingWorker.start();
+        batchMatchingJob.start();
+      }
+
       // Start server
       this.app.listen(config.port, config.host, () => {
         logger.info(`Server running on ${config.host}:${config.port}`);
@@ -198,6 +219,10 @@ export class Server {
     logger.info(`Received ${signal}, starting graceful shutdown...`);
 
     try {
+      // Stop scheduled jobs
+      batchMatchingJob.stop();
+      await matchingWorker.stop();
+
       // Close database connections
       await db.close();
       logger.info('Database connections closed');
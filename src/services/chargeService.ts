@@ -0,0 +1,115 @@
+import { db } from '../database/db';
+import { logger } from '../logger';
+import { Charge, CancellationReason, RideRequest } from '../models/types';
+import { pricingService } from './pricingService';
+import { ledgerService } from './ledgerService';
+import { tariffService } from './tariffService';
+
+/**
+ * CHARGE SERVICE
+ *
+ * Records the fees riders owe for ending a ride: cancellation fees and
+ * no-show charges. The amount comes from PricingService's cancellation
+ * policy; every cancellation gets a row, with zero-fee outcomes (free
+ * window, not yet matched, caused by the system) stored as waived.
+ * A ride has at most one charge of each type; fees that are owed are
+ * posted to the fare ledger. Charges are in the currency the ride was
+ * priced in, or its tariff's currency if it was never priced.
+ */
+
+export class ChargeService {
+  /**
+   * Price and record the charge for ending a ride (within transaction)
+   * Must run before the ride leaves its pool: dispatch is read from the
+   * pool's vehicle assignment
+   * Time: O(1), Space: O(1)
+   */
+  public async assessCancellationInternal(
+    client: any,
+    ride: RideRequest,
+    reason: CancellationReason,
+    poolId?: string
+  ): Promise<Charge> {
+    let dispatched = false;
+    if (poolId) {
+      const poolResult = await client.query('SELECT vehicle_id FROM ride_pools WHERE id = $1', [
+        poolId,
+      ]);
+      dispatched = !!poolResult.rows[0]?.vehicle_id;
+    }
+
+    const priced = await client.query(
+      `SELECT currency FROM pricing_history
+       WHERE ride_request_id = $1
+       ORDER BY calculated_at DESC
+       LIMIT 1`,
+      [ride.id]
+    );
+    const currency: string =
+      priced.rows[0]?.currency || (await tariffService.resolveTariff(ride)).currency;
+
+    const fee = pricingService.calculateCancellationFee(ride, reason, dispatched, currency);
+
+    const result = await client.query(
+      `INSERT INTO charges
+       (ride_request_id, user_id, charge_type, amount, currency, status, policy_rule,
+        ride_status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (ride_request_id, charge_type) DO NOTHING
+       RETURNING *`,
+      [
+        ride.id,
+        ride.user_id,
+        fee.charge_type,
+        fee.amount,
+        fee.currency,
+        fee.waived ? 'waived' : 'pending',
+        fee.rule,
+        ride.status,
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await client.query(
+        'SELECT * FROM charges WHERE ride_request_id = $1 AND charge_type = $2',
+        [ride.id, fee.charge_type]
+      );
+      return this.toCharge(existing.rows[0]);
+    }
+
+    const charge = this.toCharge(result.rows[0]);
+    await ledgerService.postChargeInternal(client, charge, poolId);
+
+    logger.info('Cancellation charge assessed', {
+      rideRequestId: ride.id,
+      reason,
+      rule: fee.rule,
+      amount: fee.amount,
+      currency: fee.currency,
+    });
+
+    return charge;
+  }
+
+  /**
+   * Charges recorded for a ride
+   * Time: O(1), Space: O(1)
+   */
+  public async getCharges(rideRequestId: string): Promise<Charge[]> {
+    const result = await db.query<Charge>(
+      'SELECT * FROM charges WHERE ride_request_id = $1 ORDER BY created_at ASC',
+      [rideRequestId]
+    );
+    return result.rows.map((row) => this.toCharge(row));
+  }
+
+  /**
+   * Normalize the amount column to a number
+   * Time: O(1), Space: O(1)
+   */
+  private toCharge(row: any): Charge {
+    return { ...row, amount: Number(row.amount) };
+  }
+}
+
+export const chargeService = new ChargeService();
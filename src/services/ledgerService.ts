@@ -0,0 +1,627 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../database/db';
+import { logger } from '../logger';
+import {
+  Charge,
+  CreateFareAdjustmentDTO,
+  FareAdjustment,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerJournalType,
+  PoolReconciliation,
+  PoolReconciliationMember,
+  PriceLine,
+  Receipt,
+} from '../models/types';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { promotionService } from './promotionService';
+import { config } from '../config';
+
+/**
+ * FARE LEDGER
+ *
+ * Double-entry record of what riders were actually charged. pricing_history
+ * logs every quote; the ledger is written once per event and never edited.
+ * Each posting is a journal whose debits equal its credits.
+ *
+ * JOURNALS:
+ * - ride_fare (ride completed, from its final pricing_history row):
+ *     Dr rider_receivable     amount charged
+ *     Dr pool_discounts       pool discount
+ *     Dr quote_adjustments    reduction to the quoted price
+ *     Dr promotions_expense   promo discount
+ *     Dr rider_credits        credits applied
+ *     Cr fare_revenue         fare incl. surge (balancing line)
+ *     Cr airport_fees_payable airport access fee (pass-through)
+ *     Cr taxes_payable        one entry per tax line (pass-through)
+ * - cancellation_fee / no_show_fee (charge assessed, not waived):
+ *     Dr rider_receivable, Cr cancellation_fee_revenue | no_show_fee_revenue
+ * - refund (ops adjustment): Dr refunds, Cr rider_receivable
+ * - goodwill_credit (ops adjustment): Dr goodwill_expense, Cr rider_credits
+ *
+ * ADJUSTMENTS: refunds and goodwill credits together never exceed what the
+ * ride was charged (rider_receivable debits).
+ *
+ * A receipt lists the ride's non-receivable entries from the rider's side
+ * (credit - debit); they sum to the net rider_receivable balance. Goodwill
+ * credits do not change what was charged and are listed separately.
+ *
+ * Amounts are integer minor units in the ride's currency, so journals
+ * balance exactly.
+ */
+
+interface JournalLine {
+  account: LedgerAccount;
+  debit?: number;
+  credit?: number;
+  description: string;
+}
+
+// Revenue and contra-revenue accounts that make up a pool's fare revenue
+const POOL_REVENUE_ACCOUNTS: LedgerAccount[] = [
+  'fare_revenue',
+  'airport_fees_payable',
+  'taxes_payable',
+  'pool_discounts',
+  'quote_adjustments',
+];
+
+export class LedgerService {
+  /**
+   * Post a completed ride's fare (within transaction)
+   * Uses the ride's latest pricing_history row; no-op if already posted
+   * Time: O(1), Space: O(1)
+   */
+  public async postRideFareInternal(
+    client: any,
+    rideRequestId: string,
+    poolId?: string
+  ): Promise<LedgerEntry[]> {
+    const posted = await client.query(
+      `SELECT 1 FROM ledger_entries WHERE ride_request_id = $1 AND journal_type = 'ride_fare'`,
+      [rideRequestId]
+    );
+    if (posted.rows.length > 0) {
+      return [];
+    }
+
+    const historyResult = await client.query(
+      `SELECT ph.*, rr.user_id FROM pricing_history ph
+       JOIN ride_requests rr ON rr.id = ph.ride_request_id
+       WHERE ph.ride_request_id = $1
+       ORDER BY ph.calculated_at DESC
+       LIMIT 1`,
+      [rideRequestId]
+    );
+    const history = historyResult.rows[0];
+    if (!history) {
+      logger.warn('No pricing history to post for completed ride', { rideRequestId });
+      return [];
+    }
+
+    const promoResult = await client.query(
+      `SELECT p.code FROM promo_redemptions r
+       JOIN promotions p ON p.id = r.promotion_id
+       WHERE r.ride_request_id = $1 AND r.status = 'applied'`,
+      [rideRequestId]
+    );
+
+    const charged: number = history.final_price;
+    const taxes = (history.lines as PriceLine[]).filter((line) => line.type === 'tax');
+    // Fare incl. surge is the balancing line, so the journal sums exactly
+    const fare =
+      charged +
+      history.pool_discount +
+      history.quote_adjustment +
+      history.promo_discount +
+      history.credits_applied -
+      history.airport_fee -
+      taxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+    const surge = Number(history.surge_multiplier);
+    const promoCode = promoResult.rows[0]?.code;
+
+    return await this.postJournalInternal(
+      client,
+      'ride_fare',
+      { id: rideRequestId, user_id: history.user_id },
+      poolId,
+      history.currency,
+      [
+        { account: 'rider_receivable', debit: charged, description: 'Amount charged' },
+        {
+          account: 'pool_discounts',
+          debit: history.pool_discount,
+          description:
+            history.pricing_mode === 'cost_sharing'
+              ? 'Pool discount (cost sharing)'
+              : 'Pool discount',
+        },
+        {
+          account: 'quote_adjustments',
+          debit: history.quote_adjustment,
+          description: 'Quoted price cap',
+        },
+        {
+          account: 'promotions_expense',
+          debit: history.promo_discount,
+          description: promoCode ? `Promo ${promoCode}` : 'Promo discount',
+        },
+        {
+          account: 'rider_credits',
+          debit: history.credits_applied,
+          description: 'Credits applied',
+        },
+        {
+          account: 'fare_revenue',
+          credit: fare,
+          description: surge > 1 ? `Fare (surge x${surge.toFixed(2)})` : 'Fare',
+        },
+        {
+          account: 'airport_fees_payable',
+          credit: history.airport_fee,
+          description: 'Airport access fee',
+        },
+        ...taxes.map((tax) => ({
+          account: 'taxes_payable' as const,
+          credit: tax.amount,
+          description: tax.label,
+        })),
+      ]
+    );
+  }
+
+  /**
+   * Post a cancellation or no-show charge (within transaction)
+   * Waived and zero charges post nothing
+   * Time: O(1), Space: O(1)
+   */
+  public async postChargeInternal(
+    client: any,
+    charge: Charge,
+    poolId?: string
+  ): Promise<LedgerEntry[]> {
+    const amount = charge.amount;
+    if (charge.status === 'waived' || amount === 0) {
+      return [];
+    }
+
+    const noShow = charge.charge_type === 'no_show_fee';
+    return await this.postJournalInternal(
+      client,
+      charge.charge_type,
+      { id: charge.ride_request_id, user_id: charge.user_id },
+      poolId,
+      charge.currency,
+      [
+        {
+          account: 'rider_receivable',
+          debit: amount,
+          description: noShow ? 'No-show fee' : 'Cancellation fee',
+        },
+        {
+          account: noShow ? 'no_show_fee_revenue' : 'cancellation_fee_revenue',
+          credit: amount,
+          description: noShow ? 'No-show fee' : 'Cancellation fee',
+        },
+      ]
+    );
+  }
+
+  /**
+   * Refund or credit a charged ride
+   * The ride is locked so concurrent adjustments cannot together exceed
+   * the amount charged; a full refund takes whatever remains
+   * Time: O(e) where e = the ride's ledger entries, Space: O(1)
+   */
+  public async createAdjustment(
+    rideRequestId: string,
+    data: CreateFareAdjustmentDTO
+  ): Promise<FareAdjustment> {
+    const adjustment = await db.transaction(async (client) => {
+      const rideResult = await client.query(
+        'SELECT id, user_id FROM ride_requests WHERE id = $1 FOR UPDATE',
+        [rideRequestId]
+      );
+      const ride = rideResult.rows[0];
+      if (!ride) {
+        throw new NotFoundError('Ride request not found');
+      }
+
+      const totals = await client.query(
+        `SELECT
+           (SELECT COALESCE(SUM(debit), 0) FROM ledger_entries
+            WHERE ride_request_id = $1 AND account = 'rider_receivable') AS charged,
+           (SELECT COALESCE(SUM(amount), 0) FROM fare_adjustments
+            WHERE ride_request_id = $1) AS adjusted,
+           (SELECT pool_id FROM ledger_entries
+            WHERE ride_request_id = $1 AND pool_id IS NOT NULL LIMIT 1) AS pool_id,
+           (SELECT currency FROM ledger_entries
+            WHERE ride_request_id = $1 AND account = 'rider_receivable' LIMIT 1) AS currency`,
+        [rideRequestId]
+      );
+      const charged = Number(totals.rows[0].charged);
+      const adjusted = Number(totals.rows[0].adjusted);
+      const available = charged - adjusted;
+
+      if (charged === 0) {
+        throw new ConflictError('Ride has no charges to adjust', {
+          ride_request_id: rideRequestId,
+        });
+      }
+
+      const amount = data.adjustment_type === 'full_refund' ? available : Number(data.amount);
+      if (amount <= 0 || amount > available) {
+        throw new ConflictError('Adjustment exceeds the amount charged', {
+          ride_request_id: rideRequestId,
+          currency: totals.rows[0].currency,
+          charged,
+          adjusted,
+          available,
+        });
+      }
+
+      const poolId = totals.rows[0].pool_id || undefined;
+      const currency: string = totals.rows[0].currency;
+      const reason = data.reason_code.replace(/_/g, ' ');
+      let entries: LedgerEntry[];
+      if (data.adjustment_type === 'goodwill_credit') {
+        await promotionService.grantCreditsInternal(
+          client,
+          ride.user_id,
+          amount,
+          currency,
+          `Goodwill credit for ride ${rideRequestId}: ${reason}`
+        );
+        const description = `Goodwill credit (${reason})`;
+        entries = await this.postJournalInternal(
+          client,
+          'goodwill_credit',
+          ride,
+          poolId,
+          currency,
+          [
+            { account: 'goodwill_expense', debit: amount, description },
+            { account: 'rider_credits', credit: amount, description },
+          ]
+        );
+      } else {
+        const description = `Refund (${reason})`;
+        entries = await this.postJournalInternal(client, 'refund', ride, poolId, currency, [
+          { account: 'refunds', debit: amount, description },
+          { account: 'rider_receivable', credit: amount, description },
+        ]);
+      }
+
+      const result = await client.query(
+        `INSERT INTO fare_adjustments
+         (ride_request_id, user_id, adjustment_type, amount, currency, reason_code, actor, note,
+          journal_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          rideRequestId,
+          ride.user_id,
+          data.adjustment_type,
+          amount,
+          currency,
+          data.reason_code,
+          data.actor,
+          data.note || null,
+          entries[0].journal_id,
+        ]
+      );
+
+      return this.toAdjustment(result.rows[0]);
+    });
+
+    logger.info('Fare adjustment recorded', {
+      rideRequestId,
+      adjustmentType: adjustment.adjustment_type,
+      amount: adjustment.amount,
+      reasonCode: adjustment.reason_code,
+      actor: adjustment.actor,
+    });
+
+    return adjustment;
+  }
+
+  /**
+   * Adjustments made to a ride, oldest first
+   * Time: O(a) where a = adjustments, Space: O(a)
+   */
+  public async getAdjustments(rideRequestId: string): Promise<FareAdjustment[]> {
+    const result = await db.query(
+      'SELECT * FROM fare_adjustments WHERE ride_request_id = $1 ORDER BY created_at ASC',
+      [rideRequestId]
+    );
+    return result.rows.map((row) => this.toAdjustment(row));
+  }
+
+  /**
+   * Write one balanced journal (within transaction); amounts in minor
+   * units of `currency`, zero lines are dropped
+   * Time: O(l) where l = lines, Space: O(l)
+   */
+  private async postJournalInternal(
+    client: any,
+    journalType: LedgerJournalType,
+    ride: { id: string; user_id: string },
+    poolId: string | undefined,
+    currency: string,
+    lines: JournalLine[]
+  ): Promise<LedgerEntry[]> {
+    const nonZero = lines.filter((line) => (line.debit || 0) !== 0 || (line.credit || 0) !== 0);
+    const debits = nonZero.reduce((sum, line) => sum + (line.debit || 0), 0);
+    const credits = nonZero.reduce((sum, line) => sum + (line.credit || 0), 0);
+
+    if (debits !== credits || nonZero.some((l) => (l.debit || 0) < 0 || (l.credit || 0) < 0)) {
+      throw new Error(
+        `Unbalanced ${journalType} journal for ride ${ride.id}: ` +
+          `debits ${debits}, credits ${credits}`
+      );
+    }
+
+    const journalId = uuidv4();
+    const entries: LedgerEntry[] = [];
+    for (const line of nonZero) {
+      const result = await client.query(
+        `INSERT INTO ledger_entries
+         (journal_id, journal_type, ride_request_id, pool_id, user_id, account, debit, credit,
+          currency, description)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          journalId,
+          journalType,
+          ride.id,
+          poolId || null,
+          ride.user_id,
+          line.account,
+          line.debit || 0,
+          line.credit || 0,
+          currency,
+          line.description,
+        ]
+      );
+      entries.push(this.toEntry(result.rows[0]));
+    }
+
+    logger.info('Ledger journal posted', {
+      journalId,
+      journalType,
+      rideRequestId: ride.id,
+      amount: debits,
+    });
+
+    return entries;
+  }
+
+  /**
+   * Reconcile a completed pool (within transaction): member charges, with
+   * the promo and credits that funded them, must sum to the pool's net fare
+   * revenue, and each member's posted charge must equal the price on their
+   * pool_members row (a member with no posted fare counts as charged 0).
+   * Stored in pool_reconciliations; re-running replaces the row
+   * Time: O(e + n) where e = the pool's ledger entries, n = members
+   * Space: O(n)
+   */
+  public async reconcilePoolInternal(client: any, poolId: string): Promise<PoolReconciliation> {
+    const result = await client.query(
+      `SELECT ride_request_id, user_id, account, currency,
+              SUM(debit) AS debit, SUM(credit) AS credit
+       FROM ledger_entries
+       WHERE pool_id = $1 AND journal_type = 'ride_fare'
+       GROUP BY ride_request_id, user_id, account, currency`,
+      [poolId]
+    );
+
+    // The prices the pool recorded for its members, independent of the ledger
+    const priceResult = await client.query(
+      `SELECT pm.ride_request_id, rr.user_id, pm.price
+       FROM pool_members pm
+       JOIN ride_requests rr ON rr.id = pm.ride_request_id
+       WHERE pm.pool_id = $1`,
+      [poolId]
+    );
+
+    // SUM of INTEGER is BIGINT, returned as a string by pg
+    const byRide = new Map<string, { user_id: string; net: Map<LedgerAccount, number> }>();
+    for (const row of priceResult.rows) {
+      byRide.set(row.ride_request_id, { user_id: row.user_id, net: new Map() });
+    }
+    for (const row of result.rows) {
+      const member = byRide.get(row.ride_request_id) || {
+        user_id: row.user_id,
+        net: new Map<LedgerAccount, number>(),
+      };
+      member.net.set(row.account, Number(row.debit) - Number(row.credit));
+      byRide.set(row.ride_request_id, member);
+    }
+    const expectedByRide = new Map<string, number>(
+      priceResult.rows.map((row) => [row.ride_request_id, Number(row.price)])
+    );
+    const currency: string = result.rows[0]?.currency || config.pricing.currency;
+
+    let poolRevenue = 0;
+    let memberCharges = 0;
+    let expectedCharges = 0;
+    const mismatched: string[] = [];
+    const members: PoolReconciliationMember[] = [];
+    for (const [rideRequestId, member] of byRide) {
+      const net = (account: LedgerAccount) => member.net.get(account) || 0;
+      // Revenue accounts carry credits, so their net debit is negative
+      const revenue = -POOL_REVENUE_ACCOUNTS.reduce((sum, account) => sum + net(account), 0);
+      const charged = net('rider_receivable');
+      const promo = net('promotions_expense');
+      const credits = net('rider_credits');
+
+      // A ride charged in the ledger but no longer a member expects nothing
+      const expected = expectedByRide.get(rideRequestId) || 0;
+
+      poolRevenue += revenue;
+      memberCharges += charged + promo + credits;
+      expectedCharges += expected;
+      if (charged !== expected) {
+        mismatched.push(rideRequestId);
+      }
+      members.push({
+        ride_request_id: rideRequestId,
+        user_id: member.user_id,
+        charged,
+        expected_charge: expected,
+        promo_discount: promo,
+        credits_applied: credits,
+        revenue,
+      });
+    }
+
+    const difference = memberCharges - poolRevenue;
+    const balanced = difference === 0 && mismatched.length === 0;
+    const upsert = await client.query(
+      `INSERT INTO pool_reconciliations
+       (pool_id, member_count, currency, pool_revenue, member_charges, expected_charges,
+        difference, balanced, members)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (pool_id) DO UPDATE SET
+         member_count = EXCLUDED.member_count,
+         currency = EXCLUDED.currency,
+         pool_revenue = EXCLUDED.pool_revenue,
+         member_charges = EXCLUDED.member_charges,
+         expected_charges = EXCLUDED.expected_charges,
+         difference = EXCLUDED.difference,
+         balanced = EXCLUDED.balanced,
+         members = EXCLUDED.members,
+         reconciled_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [
+        poolId,
+        members.length,
+        currency,
+        poolRevenue,
+        memberCharges,
+        expectedCharges,
+        difference,
+        balanced,
+        JSON.stringify(members),
+      ]
+    );
+
+    if (!balanced) {
+      logger.warn('Pool reconciliation out of balance', {
+        poolId,
+        poolRevenue,
+        memberCharges,
+        expectedCharges,
+        mismatchedRideIds: mismatched,
+      });
+    }
+
+    return this.toReconciliation(upsert.rows[0]);
+  }
+
+  /**
+   * Get a pool's reconciliation
+   * Time: O(1), Space: O(n) where n = members
+   */
+  public async getPoolReconciliation(poolId: string): Promise<PoolReconciliation | null> {
+    const result = await db.query('SELECT * FROM pool_reconciliations WHERE pool_id = $1', [
+      poolId,
+    ]);
+    return result.rows.length > 0 ? this.toReconciliation(result.rows[0]) : null;
+  }
+
+  /**
+   * Ledger entries for a ride, in posting order
+   * Time: O(e) where e = entries, Space: O(e)
+   */
+  public async getRideEntries(rideRequestId: string): Promise<LedgerEntry[]> {
+    const result = await db.query(
+      `SELECT * FROM ledger_entries
+       WHERE ride_request_id = $1
+       ORDER BY created_at ASC, journal_id, debit DESC`,
+      [rideRequestId]
+    );
+    return result.rows.map((row) => this.toEntry(row));
+  }
+
+  /**
+   * Itemized receipt for a ride, built from its ledger entries
+   * Time: O(e) where e = entries, Space: O(e)
+   */
+  public async getReceipt(rideRequestId: string): Promise<Receipt> {
+    const rideResult = await db.query(
+      `SELECT rr.id, rr.user_id, rr.status, pm.pool_id
+       FROM ride_requests rr
+       LEFT JOIN pool_members pm ON pm.ride_request_id = rr.id
+       WHERE rr.id = $1`,
+      [rideRequestId]
+    );
+    const ride = rideResult.rows[0];
+    if (!ride) {
+      throw new NotFoundError('Ride request not found');
+    }
+
+    const entries = await this.getRideEntries(rideRequestId);
+    if (entries.length === 0) {
+      throw new NotFoundError('No receipt yet: the ride has not been charged');
+    }
+
+    const lines = entries
+      .filter(
+        (entry) => entry.account !== 'rider_receivable' && entry.journal_type !== 'goodwill_credit'
+      )
+      .map((entry) => ({
+        journal_type: entry.journal_type,
+        account: entry.account,
+        description: entry.description || entry.account,
+        amount: entry.credit - entry.debit,
+        posted_at: entry.created_at,
+      }));
+    const totalCharged = entries
+      .filter((entry) => entry.account === 'rider_receivable')
+      .reduce((sum, entry) => sum + entry.debit - entry.credit, 0);
+    const creditsIssued = entries
+      .filter(
+        (entry) => entry.journal_type === 'goodwill_credit' && entry.account === 'rider_credits'
+      )
+      .reduce((sum, entry) => sum + entry.credit, 0);
+
+    return {
+      ride_request_id: ride.id,
+      user_id: ride.user_id,
+      pool_id: ride.pool_id || entries.find((e) => e.pool_id)?.pool_id || null,
+      ride_status: ride.status,
+      currency: entries[0].currency,
+      lines,
+      total_charged: totalCharged,
+      credits_issued: creditsIssued,
+      adjustments: await this.getAdjustments(rideRequestId),
+      issued_at: new Date(),
+    };
+  }
+
+  /**
+   * Normalize amount columns to numbers
+   * Time: O(1), Space: O(1)
+   */
+  private toEntry(row: any): LedgerEntry {
+    return { ...row, debit: Number(row.debit), credit: Number(row.credit) };
+  }
+
+  private toAdjustment(row: any): FareAdjustment {
+    return { ...row, amount: Number(row.amount) };
+  }
+
+  private toReconciliation(row: any): PoolReconciliation {
+    return {
+      ...row,
+      pool_revenue: Number(row.pool_revenue),
+      member_charges: Number(row.member_charges),
+      expected_charges: Number(row.expected_charges),
+      difference: Number(row.difference),
+    };
+  }
+}
+
+export const ledgerService = new LedgerService();
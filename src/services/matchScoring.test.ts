@@ -0,0 +1,207 @@
+import { config } from '../config';
+import { RidePool, RideRequest, ScoringWeights, Tariff } from '../models/types';
+import { calculateDistance } from '../utils/distance';
+import { computeScoreFactors, MatchScorer, MatchScoringContext } from './matchScoring';
+
+/**
+ * Score factors, strategy weights and per-airport overrides. Pure, no
+ * database.
+ */
+
+const JFK_ID = 'jfk-location';
+const LGA_ID = 'lga-location';
+
+function ride(id: string, passengers: number, pickupLocationId = JFK_ID): RideRequest {
+  return {
+    id,
+    user_id: `user-${id}`,
+    pickup_location_id: pickupLocationId,
+    dropoff_location_id: 'midtown',
+    pickup_latitude: 40.6413,
+    pickup_longitude: -73.7781,
+    dropoff_latitude: 40.758,
+    dropoff_longitude: -73.9855,
+    passenger_count: passengers,
+    luggage_count: 0,
+    max_detour_km: 5,
+    status: 'pending',
+    requested_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+function tariff(overrides: Partial<Tariff> = {}): Tariff {
+  return {
+    id: 'tariff',
+    code: 'test',
+    version: 1,
+    base_fare: 5,
+    per_km_rate: 2,
+    per_minute_rate: 0,
+    minimum_fare: 0,
+    airport_access_fee: 0,
+    max_surge_multiplier: 2,
+    pool_discount_percent: 20,
+    pool_pricing_mode: 'flat_discount',
+    currency: 'USD',
+    tax_lines: null,
+    effective_from: new Date(0),
+    ...overrides,
+  };
+}
+
+const DIRECT_KM = calculateDistance(40.6413, -73.7781, 40.758, -73.9855);
+
+// Two riders with the same trip sharing a four-seat sedan
+function context(overrides: Partial<MatchScoringContext> = {}): MatchScoringContext {
+  const requests = [ride('a', 1), ride('b', 2)];
+  return {
+    request: requests[1],
+    pool: { max_passengers: 4 } as RidePool,
+    requests,
+    detours: new Map([
+      ['a', 1],
+      ['b', 0],
+    ]),
+    totalDistance: DIRECT_KM * 1.25,
+    tariff: tariff(),
+    ...overrides,
+  };
+}
+
+describe('computeScoreFactors', () => {
+  const maxDetourToleranceKm = config.ridePooling.maxDetourToleranceKm;
+
+  beforeEach(() => {
+    config.ridePooling.maxDetourToleranceKm = 5;
+  });
+
+  afterEach(() => {
+    config.ridePooling.maxDetourToleranceKm = maxDetourToleranceKm;
+  });
+
+  it('normalizes every factor to [0, 1]', () => {
+    const factors = computeScoreFactors(context());
+
+    expect(factors.vehicle_km).toBeCloseTo(1 - 1.25 / 2, 9);
+    expect(factors.max_detour).toBeCloseTo(1 - 1 / 5, 9);
+    expect(factors.utilization).toBeCloseTo(3 / 4, 9);
+  });
+
+  // Pooled fares of two riders over a route 1.25× one direct trip, against
+  // four solo fares over that route
+  const revenue = (t: Tariff) =>
+    (2 * (t.base_fare + DIRECT_KM * t.per_km_rate) * (1 - t.pool_discount_percent / 100)) /
+    (4 * (t.base_fare + 1.25 * DIRECT_KM * t.per_km_rate));
+
+  it.each([
+    ['default rates', tariff()],
+    ['a deeper pool discount', tariff({ pool_discount_percent: 50 })],
+    ['a higher base fare', tariff({ base_fare: 40 })],
+    ['a higher per-km rate', tariff({ per_km_rate: 4.5 })],
+  ])('values revenue at the tariff with %s', (_name, rates) => {
+    expect(computeScoreFactors(context({ tariff: rates })).revenue).toBeCloseTo(revenue(rates), 9);
+  });
+
+  it('scores a pool with a route longer than the solo trips as saving no vehicle km', () => {
+    expect(computeScoreFactors(context({ totalDistance: DIRECT_KM * 3 })).vehicle_km).toBe(0);
+  });
+});
+
+describe('MatchScorer', () => {
+  const scoring = config.matching.scoring;
+  const scorer = new MatchScorer();
+
+  afterEach(() => {
+    config.matching.scoring = scoring;
+  });
+
+  const useScoring = (overrides: Partial<typeof scoring>) => {
+    config.matching.scoring = { ...scoring, weights: {}, airportOverrides: {}, ...overrides };
+  };
+
+  it.each([
+    ['minimize_vehicle_km', { vehicle_km: 0.6, max_detour: 0.2, utilization: 0.2, revenue: 0 }],
+    ['minimize_max_detour', { vehicle_km: 0.2, max_detour: 0.6, utilization: 0.2, revenue: 0 }],
+    ['maximize_utilization', { vehicle_km: 0.2, max_detour: 0.2, utilization: 0.6, revenue: 0 }],
+    ['revenue_weighted', { vehicle_km: 0.1, max_detour: 0.2, utilization: 0.1, revenue: 0.6 }],
+  ])('scores %s as the weighted sum of the factors', (strategy, weights: ScoringWeights) => {
+    useScoring({ strategy });
+    const factors = computeScoreFactors(context());
+
+    const score = scorer.score(context());
+
+    const expected =
+      100 *
+      (factors.vehicle_km * weights.vehicle_km +
+        factors.max_detour * weights.max_detour +
+        factors.utilization * weights.utilization +
+        factors.revenue * weights.revenue);
+    expect(score.strategy).toBe(strategy);
+    expect(score.total).toBeCloseTo(expected, 1);
+    expect(score.factors.vehicle_km.weight).toBe(weights.vehicle_km);
+  });
+
+  it.each([
+    [
+      'global weights over the defaults',
+      { strategy: 'minimize_vehicle_km', weights: { revenue: 0.5 } },
+      JFK_ID,
+      'minimize_vehicle_km',
+      { vehicle_km: 0.6, max_detour: 0.2, utilization: 0.2, revenue: 0.5 },
+    ],
+    [
+      "the airport's strategy and weights over the global ones",
+      {
+        strategy: 'minimize_vehicle_km',
+        weights: { revenue: 0.5 },
+        airportOverrides: {
+          [JFK_ID]: { strategy: 'revenue_weighted', weights: { revenue: 0.7 } },
+        },
+      },
+      JFK_ID,
+      'revenue_weighted',
+      { vehicle_km: 0.1, max_detour: 0.2, utilization: 0.1, revenue: 0.7 },
+    ],
+    [
+      "the airport's weights with the global strategy",
+      {
+        strategy: 'minimize_max_detour',
+        airportOverrides: { [JFK_ID]: { weights: { utilization: 0 } } },
+      },
+      JFK_ID,
+      'minimize_max_detour',
+      { vehicle_km: 0.2, max_detour: 0.6, utilization: 0, revenue: 0 },
+    ],
+    [
+      "another airport's override left alone",
+      {
+        strategy: 'minimize_vehicle_km',
+        airportOverrides: { [JFK_ID]: { strategy: 'revenue_weighted' } },
+      },
+      LGA_ID,
+      'minimize_vehicle_km',
+      { vehicle_km: 0.6, max_detour: 0.2, utilization: 0.2, revenue: 0 },
+    ],
+  ])('resolves %s', (_name, overrides, pickupLocationId, strategy, weights) => {
+    useScoring(overrides);
+
+    const resolved = scorer.resolve(ride('a', 1, pickupLocationId));
+
+    expect(resolved.strategy.name).toBe(strategy);
+    expect(resolved.weights).toEqual(weights);
+  });
+
+  it('normalizes weights that do not sum to 1', () => {
+    useScoring({
+      strategy: 'minimize_vehicle_km',
+      weights: { vehicle_km: 3, max_detour: 1, utilization: 0, revenue: 0 },
+    });
+
+    const { factors } = scorer.score(context());
+
+    expect(factors.vehicle_km.weight).toBe(0.75);
+    expect(factors.max_detour.weight).toBe(0.25);
+  });
+});
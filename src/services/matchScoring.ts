@@ -0,0 +1,222 @@
+import {
+  RideRequest,
+  RidePool,
+  MatchScore,
+  MatchScoreFactor,
+  ScoringWeights,
+  Tariff,
+} from '../models/types';
+import { config } from '../config';
+import { calculateDistance } from '../utils/distance';
+
+/**
+ * MATCH SCORING STRATEGIES
+ *
+ * Every candidate pool is described by four factors, each normalized to
+ * [0, 1] so that long airport trips are not penalized for their length:
+ * - vehicle_km:  share of vehicle km saved versus driving every member
+ *                solo (1 - shared route km / Σ direct km)
+ * - max_detour:  1 - worst member detour / detour tolerance
+ * - utilization: seats filled after the join / seats in the vehicle
+ * - revenue:     pooled fares earned on the route relative to a full
+ *                vehicle of solo fares over the same distance, at the
+ *                rates of the tariff that prices the ride
+ *
+ * A strategy turns the factors into a 0-100 score. Built-in strategies
+ * are weighted sums that differ only in their default weights; weights
+ * can be overridden globally or per airport through config.matching.scoring,
+ * which is validated when config loads.
+ *
+ * Time Complexity: O(k) where k = pool members
+ * Space Complexity: O(1)
+ */
+
+export interface MatchScoringContext {
+  request: RideRequest;
+  pool: RidePool;
+  // All members on the route, including the request being scored
+  requests: RideRequest[];
+  detours: Map<string, number>;
+  totalDistance: number;
+  // Tariff for the request in the pool's vehicle class
+  tariff: Tariff;
+}
+
+export interface MatchScoringStrategy {
+  name: string;
+  defaultWeights: ScoringWeights;
+  score(context: MatchScoringContext, weights: ScoringWeights): MatchScore;
+}
+
+const FACTORS: MatchScoreFactor[] = ['vehicle_km', 'max_detour', 'utilization', 'revenue'];
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, decimals: number): number {
+  return parseFloat(value.toFixed(decimals));
+}
+
+/**
+ * Compute the normalized factor values for a candidate
+ * Time: O(k), Space: O(1)
+ */
+export function computeScoreFactors(
+  context: MatchScoringContext
+): Record<MatchScoreFactor, number> {
+  const { pool, requests, detours, totalDistance, tariff } = context;
+
+  const directDistances = requests.map((r) =>
+    calculateDistance(
+      Number(r.pickup_latitude),
+      Number(r.pickup_longitude),
+      Number(r.dropoff_latitude),
+      Number(r.dropoff_longitude)
+    )
+  );
+  const directTotal = directDistances.reduce((a, b) => a + b, 0);
+
+  const maxDetour = Math.max(0, ...Array.from(detours.values()));
+  const passengers = requests.reduce((sum, r) => sum + r.passenger_count, 0);
+
+  const pooledRevenue = directDistances.reduce(
+    (sum, km) =>
+      sum + (tariff.base_fare + km * tariff.per_km_rate) * (1 - tariff.pool_discount_percent / 100),
+    0
+  );
+  const fullVehicleRevenue =
+    (tariff.base_fare + totalDistance * tariff.per_km_rate) * pool.max_passengers;
+
+  return {
+    vehicle_km: directTotal > 0 ? clamp01(1 - totalDistance / directTotal) : 0,
+    max_detour: clamp01(1 - maxDetour / config.ridePooling.maxDetourToleranceKm),
+    utilization: clamp01(passengers / pool.max_passengers),
+    revenue: fullVehicleRevenue > 0 ? clamp01(pooledRevenue / fullVehicleRevenue) : 0,
+  };
+}
+
+/**
+ * Weighted sum of the normalized factors, scaled to 0-100
+ * Weights need not sum to 1; they are normalized
+ */
+export class WeightedFactorStrategy implements MatchScoringStrategy {
+  constructor(
+    public readonly name: string,
+    public readonly defaultWeights: ScoringWeights
+  ) {}
+
+  public score(context: MatchScoringContext, weights: ScoringWeights): MatchScore {
+    const values = computeScoreFactors(context);
+    const weightSum = FACTORS.reduce((sum, f) => sum + Math.max(0, weights[f]), 0) || 1;
+
+    const factors = {} as MatchScore['factors'];
+    let total = 0;
+
+    for (const factor of FACTORS) {
+      const weight = Math.max(0, weights[factor]) / weightSum;
+      const contribution = values[factor] * weight * 100;
+      total += contribution;
+      factors[factor] = {
+        value: round(values[factor], 4),
+        weight: round(weight, 4),
+        contribution: round(contribution, 2),
+      };
+    }
+
+    return { strategy: this.name, total: round(total, 2), factors };
+  }
+}
+
+export class MatchScorer {
+  private strategies = new Map<string, MatchScoringStrategy>();
+
+  constructor() {
+    this.register(
+      new WeightedFactorStrategy('minimize_vehicle_km', {
+        vehicle_km: 0.6,
+        max_detour: 0.2,
+        utilization: 0.2,
+        revenue: 0,
+      })
+    );
+    this.register(
+      new WeightedFactorStrategy('minimize_max_detour', {
+        vehicle_km: 0.2,
+        max_detour: 0.6,
+        utilization: 0.2,
+        revenue: 0,
+      })
+    );
+    this.register(
+      new WeightedFactorStrategy('maximize_utilization', {
+        vehicle_km: 0.2,
+        max_detour: 0.2,
+        utilization: 0.6,
+        revenue: 0,
+      })
+    );
+    this.register(
+      new WeightedFactorStrategy('revenue_weighted', {
+        vehicle_km: 0.1,
+        max_detour: 0.2,
+        utilization: 0.1,
+        revenue: 0.6,
+      })
+    );
+  }
+
+  /**
+   * Register a custom strategy (replaces one with the same name)
+   * Config only selects built-in names, so a custom strategy takes over one
+   */
+  public register(strategy: MatchScoringStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  public listStrategies(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Strategy and weights for a request: airport override (by pickup
+   * location) over global config over the strategy's defaults
+   * Time: O(1), Space: O(1)
+   */
+  public resolve(request: RideRequest): {
+    strategy: MatchScoringStrategy;
+    weights: ScoringWeights;
+  } {
+    const scoring = config.matching.scoring;
+    const override = scoring.airportOverrides[request.pickup_location_id] || {};
+
+    const name = override.strategy || scoring.strategy;
+    const strategy = this.strategies.get(name);
+    if (!strategy) {
+      throw new Error(`Unknown match scoring strategy: ${name}`);
+    }
+
+    const weights: ScoringWeights = { ...strategy.defaultWeights };
+    for (const source of [scoring.weights, override.weights || {}]) {
+      for (const factor of FACTORS) {
+        if (typeof source[factor] === 'number') {
+          weights[factor] = source[factor];
+        }
+      }
+    }
+
+    return { strategy, weights };
+  }
+
+  /**
+   * Score a candidate with the strategy configured for the request
+   * Time: O(k), Space: O(1)
+   */
+  public score(context: MatchScoringContext): MatchScore {
+    const { strategy, weights } = this.resolve(context.request);
+    return strategy.score(context, weights);
+  }
+}
+
+export const matchScorer = new MatchScorer();
@@ -1,12 +1,24 @@
-import { RideRequest, RidePool, PoolMember, MatchResult } from '../models/types';
-import { config } from '../config';
 import {
-  calculateDistance,
-  calculateTotalDistance,
-  optimizeRoute,
-  areLocationsCompatible,
-} from '../utils/distance';
+  RideRequest,
+  RidePool,
+  PoolMember,
+  MatchResult,
+  MatchScore,
+  MatchRejection,
+  MatchCandidateExplanation,
+  PlannedStop,
+  Tariff,
+  VehicleClass,
+} from '../models/types';
+import { config } from '../config';
+import { areLocationsCompatible, RoutePoint } from '../utils/distance';
 import { logger } from '../logger';
+import { matchScorer } from './matchScoring';
+import { poolService } from './poolService';
+import { pricingService } from './pricingService';
+import { routePlanner } from './routePlanner';
+import { tariffService } from './tariffService';
+import { vehicleService } from './vehicleService';
 
 /**
  * RIDE POOLING MATCHING ALGORITHM
@@ -19,7 +31,8 @@ import { logger } from '../logger';
  *   - m = number of existing active pools
  *   - Sorting pools: O(m * log(m))
  *   - For each request, checking each pool: O(n * m)
- *   - Route optimization per check: O(k²) where k = max 8 stops (4 passengers * 2)
+ *   - Route optimization per check: O(2^k * k²) exact DP where k = max 8 stops
+ *     (4 passengers * 2); greedy O(k²) above config.matching.exactRouteMaxStops
  * 
  * - Space Complexity: O(n + m + k)
  *   - Storing requests: O(n)
@@ -31,20 +44,38 @@ import { logger } from '../logger';
  * 2. For each request, calculate compatibility with each pool
  * 3. Check detour constraints for all existing members
  * 4. Optimize route and verify total distance
- * 5. Select best match based on scoring function
+ * 5. Select best match based on the configured scoring strategy
  * 6. Create new pool if no suitable match found
  * 
  * CONSTRAINTS:
- * - Max passengers per pool: 4
- * - Max luggage per pool: 8
+ * - Max passengers/luggage per pool: from the assigned vehicle, or the
+ *   pool's vehicle class (sedan 4/8 by default)
  * - Max detour per passenger: configurable (default 5km)
  * - Pickup must happen before dropoff for each passenger
+ * - Planned pickup/arrival times must fall inside each member's
+ *   earliest_pickup_at / latest_arrival_at window
  */
 
 export interface PoolCandidate {
   pool: RidePool;
   existingMembers: PoolMember[];
   existingRequests: RideRequest[];
+  score?: MatchScore;
+}
+
+export interface RouteAnalysis {
+  valid: boolean;
+  route: PlannedStop[];
+  detours: Map<string, number>;
+  totalDistance: number;
+  departure?: Date;
+  rejection?: MatchRejection;
+}
+
+export interface CandidateEvaluation {
+  candidate: PoolCandidate;
+  score?: MatchScore;
+  rejection?: MatchRejection;
 }
 
 export class MatchingEngine {
@@ -58,58 +89,180 @@ export class MatchingEngine {
     request: RideRequest,
     availablePools: PoolCandidate[]
   ): Promise<PoolCandidate | null> {
-    const compatiblePools: Array<{ pool: PoolCandidate; score: number }> = [];
+    const ranked = await this.rankMatches(request, availablePools);
+    return ranked.length > 0 ? ranked[0] : null;
+  }
 
-    for (const poolCandidate of availablePools) {
-      const { pool, existingMembers, existingRequests } = poolCandidate;
+  /**
+   * All compatible pools for a ride request, best first, each carrying
+   * its score breakdown
+   * Lets callers fall back to the next candidate when a join loses a race
+   * Tariffs by pool vehicle class are resolved when not given
+   * 
+   * Time: O(m * k² + m * log(m)) where m = pools, k = stops per pool
+   * Space: O(m)
+   */
+  public async rankMatches(
+    request: RideRequest,
+    availablePools: PoolCandidate[],
+    tariffs?: Map<VehicleClass, Tariff>
+  ): Promise<PoolCandidate[]> {
+    const compatiblePools: PoolCandidate[] = [];
+    const tariffsByClass = tariffs || (await this.resolveTariffs(request, availablePools));
 
-      // Step 1: Check capacity constraints O(1)
-      if (!this.checkCapacityConstraints(pool, request)) {
-        continue;
+    for (const poolCandidate of availablePools) {
+      const evaluation = this.evaluateCandidate(
+        request,
+        poolCandidate,
+        tariffsByClass.get(poolCandidate.pool.vehicle_class)
+      );
+      if (evaluation.score) {
+        compatiblePools.push({ ...poolCandidate, score: evaluation.score });
       }
+    }
 
-      // Step 2: Check location compatibility O(k) where k = existing members
-      if (!this.checkLocationCompatibility(request, existingRequests)) {
-        continue;
-      }
+    // Step 5: Sort by score O(m * log(m))
+    compatiblePools.sort((a, b) => b.score.total - a.score.total);
+    return compatiblePools;
+  }
+
+  /**
+   * Evaluate every candidate without side effects, recording the scores
+   * of compatible pools and the constraint that rejected the others
+   * Accepted candidates are ordered best first
+   *
+   * Time: O(m * k² + m * log(m)) where m = pools, k = stops per pool
+   * Space: O(m)
+   */
+  public async explainMatches(
+    request: RideRequest,
+    availablePools: PoolCandidate[]
+  ): Promise<{ accepted: MatchCandidateExplanation[]; rejected: MatchCandidateExplanation[] }> {
+    const accepted: MatchCandidateExplanation[] = [];
+    const rejected: MatchCandidateExplanation[] = [];
+    const tariffs = await this.resolveTariffs(request, availablePools);
 
-      // Step 3: Calculate route with new member O(k²)
-      const routeAnalysis = this.analyzeRouteWithNewMember(
+    for (const poolCandidate of availablePools) {
+      const { score, rejection } = this.evaluateCandidate(
         request,
-        existingRequests,
-        existingMembers
+        poolCandidate,
+        tariffs.get(poolCandidate.pool.vehicle_class)
       );
+      const { pool, existingMembers } = poolCandidate;
+      const entry: MatchCandidateExplanation = {
+        pool_id: pool.id,
+        pool_code: pool.pool_code,
+        pool_status: pool.status,
+        member_count: existingMembers.length,
+        accepted: !!score,
+      };
+
+      if (score) {
+        accepted.push({ ...entry, score });
+      } else {
+        rejected.push({ ...entry, rejection });
+      }
+    }
 
-      if (!routeAnalysis.valid) {
-        continue;
+    accepted.sort((a, b) => b.score.total - a.score.total);
+    return { accepted, rejected };
+  }
+
+  /**
+   * Tariff for the request in each vehicle class among the candidate pools
+   * Time: O(c * t) where c = vehicle classes, t = current tariffs
+   * Space: O(c)
+   */
+  private async resolveTariffs(
+    request: RideRequest,
+    candidates: PoolCandidate[]
+  ): Promise<Map<VehicleClass, Tariff>> {
+    const tariffs = new Map<VehicleClass, Tariff>();
+    for (const { pool } of candidates) {
+      if (!tariffs.has(pool.vehicle_class)) {
+        tariffs.set(
+          pool.vehicle_class,
+          await tariffService.resolveTariff(request, pool.vehicle_class)
+        );
       }
+    }
+    return tariffs;
+  }
 
-      // Step 4: Calculate matching score O(1)
-      const score = this.calculateMatchScore(routeAnalysis, pool, request);
+  /**
+   * Run every constraint check for one candidate pool; stops at the first
+   * violated constraint
+   * Time: O(2^k * k²) where k = stops, Space: O(2^k * k)
+   */
+  private evaluateCandidate(
+    request: RideRequest,
+    poolCandidate: PoolCandidate,
+    tariff: Tariff
+  ): CandidateEvaluation {
+    const { pool, existingRequests } = poolCandidate;
+
+    // Step 1: Check capacity constraints O(1)
+    const capacityRejection = this.checkCapacityConstraints(pool, request);
+    if (capacityRejection) {
+      return { candidate: poolCandidate, rejection: capacityRejection };
+    }
 
-      compatiblePools.push({ pool: poolCandidate, score });
+    // Step 2: Check location compatibility O(k) where k = existing members
+    if (!this.checkLocationCompatibility(request, existingRequests)) {
+      return {
+        candidate: poolCandidate,
+        rejection: {
+          constraint: 'location_compatibility',
+          message: 'Pickup or dropoff is too far from every existing member',
+        },
+      };
     }
 
-    // Step 5: Sort by score and return best match O(m * log(m))
-    if (compatiblePools.length === 0) {
-      return null;
+    // Step 3: Calculate route with new member O(k²)
+    const routeAnalysis = this.analyzeRouteWithNewMember(request, existingRequests);
+
+    if (!routeAnalysis.valid) {
+      return { candidate: poolCandidate, rejection: routeAnalysis.rejection };
     }
 
-    compatiblePools.sort((a, b) => b.score - a.score);
-    return compatiblePools[0].pool;
+    // Step 4: Calculate matching score O(k)
+    const score = this.calculateMatchScore(
+      routeAnalysis,
+      pool,
+      request,
+      existingRequests,
+      tariff
+    );
+
+    return { candidate: poolCandidate, score };
   }
 
   /**
    * Check if pool has capacity for new request
+   * Returns the violated constraint, or null if the request fits
    * Time: O(1), Space: O(1)
    */
-  private checkCapacityConstraints(pool: RidePool, request: RideRequest): boolean {
-    const hasPassengerCapacity =
-      pool.current_passenger_count + request.passenger_count <= pool.max_passengers;
-    const hasLuggageCapacity =
-      pool.current_luggage_count + request.luggage_count <= pool.max_luggage;
+  private checkCapacityConstraints(
+    pool: RidePool,
+    request: RideRequest
+  ): MatchRejection | null {
+    const freeSeats = pool.max_passengers - pool.current_passenger_count;
+    if (request.passenger_count > freeSeats) {
+      return {
+        constraint: 'capacity',
+        message: `Pool has ${freeSeats} free seats, ${request.passenger_count} needed`,
+      };
+    }
 
-    return hasPassengerCapacity && hasLuggageCapacity;
+    const freeLuggage = pool.max_luggage - pool.current_luggage_count;
+    if (request.luggage_count > freeLuggage) {
+      return {
+        constraint: 'luggage',
+        message: `Pool has room for ${freeLuggage} bags, ${request.luggage_count} needed`,
+      };
+    }
+
+    return null;
   }
 
   /**
@@ -145,161 +298,104 @@ export class MatchingEngine {
   }
 
   /**
-   * Analyze route with new member added
-   * Time: O(k²) where k = total stops, Space: O(k)
+   * Analyze route with new member added, from the pool's route start
+   * Time: O(2^k * k²) where k = total stops, Space: O(2^k * k)
    */
   private analyzeRouteWithNewMember(
     newRequest: RideRequest,
-    existingRequests: RideRequest[],
-    existingMembers: PoolMember[]
-  ): {
-    valid: boolean;
-    route: any[];
-    detours: Map<string, number>;
-    totalDistance: number;
-  } {
-    // Build stops array
-    const stops = [];
-
-    // Add existing stops
-    for (const req of existingRequests) {
-      stops.push({
-        id: `${req.id}-pickup`,
-        lat: req.pickup_latitude,
-        lon: req.pickup_longitude,
-        type: 'pickup' as const,
-        userId: req.user_id,
-        requestId: req.id,
-      });
-      stops.push({
-        id: `${req.id}-dropoff`,
-        lat: req.dropoff_latitude,
-        lon: req.dropoff_longitude,
-        type: 'dropoff' as const,
-        userId: req.user_id,
-        requestId: req.id,
+    existingRequests: RideRequest[]
+  ): RouteAnalysis {
+    const requests = [...existingRequests, newRequest];
+    return this.analyzeRoute(requests, routePlanner.routeStart(requests));
+  }
+
+  /**
+   * Optimize the shared route for a set of requests and check every
+   * member's detour against their tolerance
+   * Time: O(2^k * k²) where k = total stops, Space: O(2^k * k)
+   */
+  private analyzeRoute(requests: RideRequest[], start?: RoutePoint): RouteAnalysis {
+    const plan = routePlanner.planRoute(requests, start);
+    if (!plan) {
+      return this.rejectRoute({
+        constraint: 'route',
+        message: 'No route visits every pickup before its dropoff',
       });
     }
 
-    // Add new request stops
-    stops.push({
-      id: `${newRequest.id}-pickup`,
-      lat: newRequest.pickup_latitude,
-      lon: newRequest.pickup_longitude,
-      type: 'pickup' as const,
-      userId: newRequest.user_id,
-      requestId: newRequest.id,
-    });
-    stops.push({
-      id: `${newRequest.id}-dropoff`,
-      lat: newRequest.dropoff_latitude,
-      lon: newRequest.dropoff_longitude,
-      type: 'dropoff' as const,
-      userId: newRequest.user_id,
-      requestId: newRequest.id,
-    });
-
-    // Optimize route O(k²)
-    const optimizedRoute = optimizeRoute(stops);
-    const totalDistance = calculateTotalDistance(optimizedRoute);
-
-    // Calculate detours for each member
-    const detours = new Map<string, number>();
-
-    for (const req of [...existingRequests, newRequest]) {
-      const directDistance = calculateDistance(
-        req.pickup_latitude,
-        req.pickup_longitude,
-        req.dropoff_latitude,
-        req.dropoff_longitude
-      );
-
-      // Find this request's portion in the optimized route
-      let pickupIdx = -1;
-      let dropoffIdx = -1;
-      for (let i = 0; i < optimizedRoute.length; i++) {
-        if (optimizedRoute[i].id === req.id) {
-          if (optimizedRoute[i].type === 'pickup') pickupIdx = i;
-          if (optimizedRoute[i].type === 'dropoff') dropoffIdx = i;
-        }
-      }
-
-      if (pickupIdx === -1 || dropoffIdx === -1) {
-        return { valid: false, route: [], detours: new Map(), totalDistance: 0 };
-      }
-
-      // Calculate actual distance through the route
-      let actualDistance = 0;
-      for (let i = pickupIdx; i < dropoffIdx; i++) {
-        actualDistance += calculateDistance(
-          optimizedRoute[i].lat,
-          optimizedRoute[i].lon,
-          optimizedRoute[i + 1].lat,
-          optimizedRoute[i + 1].lon
-        );
-      }
-
-      const detour = actualDistance - directDistance;
-      detours.set(req.id, detour);
-
-      // Check detour constraint
-      const maxDetour = Math.min(req.max_detour_km, config.ridePooling.maxDetourToleranceKm);
-      if (detour > maxDetour) {
-        logger.debug('Detour constraint violated', {
-          requestId: req.id,
-          detour,
-          maxDetour,
-        });
-        return { valid: false, route: [], detours: new Map(), totalDistance: 0 };
-      }
+    // Check every member's detour and time window against the planned route
+    const violation = routePlanner.findViolation(requests, plan);
+    if (violation) {
+      logger.debug('Route constraint violated', {
+        constraint: violation.constraint,
+        requestIds: requests.map((r) => r.id),
+      });
+      return this.rejectRoute(violation);
     }
 
+    const schedule = routePlanner.computeSchedule(requests, plan);
+
     return {
       valid: true,
-      route: optimizedRoute,
-      detours,
-      totalDistance,
+      route: plan.stops,
+      detours: plan.detours,
+      totalDistance: plan.total_distance_km,
+      departure: schedule.departure,
     };
   }
 
   /**
-   * Calculate matching score for ranking pools
-   * Higher score = better match
+   * Invalid route analysis carrying the violated constraint
    * Time: O(1), Space: O(1)
    */
+  private rejectRoute(rejection: MatchRejection): RouteAnalysis {
+    return { valid: false, route: [], detours: new Map(), totalDistance: 0, rejection };
+  }
+
+  /**
+   * Calculate matching score for ranking pools
+   * Higher score = better match; strategy and weights are resolved per
+   * request (see MatchScorer), revenue is valued at the request's tariff
+   * Time: O(k) where k = pool members, Space: O(1)
+   */
   private calculateMatchScore(
     routeAnalysis: { detours: Map<string, number>; totalDistance: number },
     pool: RidePool,
-    request: RideRequest
-  ): number {
-    // Factors:
-    // 1. Lower average detour = higher score
-    // 2. More passengers = higher score (better utilization)
-    // 3. Shorter total route = higher score
-
-    const avgDetour =
-      Array.from(routeAnalysis.detours.values()).reduce((a, b) => a + b, 0) /
-      routeAnalysis.detours.size;
-
-    const utilizationScore = pool.current_passenger_count / pool.max_passengers;
-    const detourScore = Math.max(0, 10 - avgDetour); // 10 points minus km of detour
-    const distanceScore = Math.max(0, 50 - routeAnalysis.totalDistance); // 50 points minus total km
-
-    return utilizationScore * 30 + detourScore * 40 + distanceScore * 30;
+    request: RideRequest,
+    existingRequests: RideRequest[],
+    tariff: Tariff
+  ): MatchScore {
+    return matchScorer.score({
+      request,
+      pool,
+      requests: [...existingRequests, request],
+      detours: routeAnalysis.detours,
+      totalDistance: routeAnalysis.totalDistance,
+      tariff,
+    });
   }
 
   /**
-   * Generate optimal pools for a batch of requests
-   * Time: O(n²) where n = number of requests
+   * Generate and persist optimal pools for a batch of requests
+   *
+   * Requests are seeded in FIFO order; each seed greedily absorbs later
+   * requests as long as capacity, luggage and every member's detour limit
+   * still hold on the optimized route. Each group is committed through
+   * PoolService.createPool.
+   *
+   * Time: O(n² * k²) where n = number of requests, k = stops per pool
    * Space: O(n)
    */
-  public generateOptimalPools(requests: RideRequest[]): MatchResult[] {
-    const pools: MatchResult[] = [];
+  public async generateOptimalPools(requests: RideRequest[]): Promise<MatchResult[]> {
+    const results: MatchResult[] = [];
     const assigned = new Set<string>();
 
-    // Sort requests by timestamp (FIFO)
+    // Sort requests by timestamp (FIFO), then id: the order a pool's
+    // members are read back in, so the seed stays the route start
     const sortedRequests = [...requests].sort(
-      (a, b) => a.requested_at.getTime() - b.requested_at.getTime()
+      (a, b) =>
+        new Date(a.requested_at).getTime() - new Date(b.requested_at).getTime() ||
+        (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
     );
 
     for (const request of sortedRequests) {
@@ -307,36 +403,119 @@ export class MatchingEngine {
 
       // Try to find compatible requests
       const compatible: RideRequest[] = [request];
+      // The seed's pickup anchors the group's route; the vehicle class
+      // the seed needs bounds the group's size
+      const start = routePlanner.routeStart(compatible);
+      const capacity = vehicleService.getClassCapacity(
+        vehicleService.selectVehicleClass(request.passenger_count, request.luggage_count)
+      );
+      let analysis = this.analyzeRoute(compatible, start);
       assigned.add(request.id);
 
       for (const otherRequest of sortedRequests) {
         if (assigned.has(otherRequest.id)) continue;
-        if (compatible.length >= config.ridePooling.maxPassengersPerPool) break;
-
-        // Check if compatible
-        const isCompatible = this.checkLocationCompatibility(otherRequest, compatible);
-        if (isCompatible) {
-          const totalPassengers =
-            compatible.reduce((sum, r) => sum + r.passenger_count, 0) +
-            otherRequest.passenger_count;
-          const totalLuggage =
-            compatible.reduce((sum, r) => sum + r.luggage_count, 0) +
-            otherRequest.luggage_count;
-
-          if (
-            totalPassengers <= config.ridePooling.maxPassengersPerPool &&
-            totalLuggage <= config.ridePooling.maxLuggageCapacity
-          ) {
-            compatible.push(otherRequest);
-            assigned.add(otherRequest.id);
-          }
+
+        const totalPassengers =
+          compatible.reduce((sum, r) => sum + r.passenger_count, 0) +
+          otherRequest.passenger_count;
+        const totalLuggage =
+          compatible.reduce((sum, r) => sum + r.luggage_count, 0) +
+          otherRequest.luggage_count;
+
+        if (
+          totalPassengers > capacity.seats ||
+          totalLuggage > capacity.luggage
+        ) {
+          continue;
+        }
+
+        if (!this.checkLocationCompatibility(otherRequest, compatible)) {
+          continue;
+        }
+
+        const candidateAnalysis = this.analyzeRoute([...compatible, otherRequest], start);
+        if (!candidateAnalysis.valid) {
+          continue;
         }
+
+        compatible.push(otherRequest);
+        assigned.add(otherRequest.id);
+        analysis = candidateAnalysis;
+      }
+
+      try {
+        const result = await this.persistPool(compatible, analysis);
+        results.push(result);
+        logger.info(`Created pool with ${compatible.length} members`, {
+          poolId: result.pool.id,
+          totalSavings: result.total_savings,
+        });
+      } catch (error) {
+        // A request may have been matched concurrently; skip this group
+        logger.warn('Failed to persist batch pool', {
+          rideRequestIds: compatible.map((r) => r.id),
+          error: (error as Error).message,
+        });
       }
+    }
+
+    return results;
+  }
 
-      logger.info(`Created pool with ${compatible.length} members`);
+  /**
+   * Commit a planned group as a pool and summarise savings and detours
+   * The pool's vehicle class is the one the group's riders and bags need;
+   * savings are measured against solo prices in that class
+   * Time: O(n) where n = group size, Space: O(n)
+   */
+  private async persistPool(
+    requests: RideRequest[],
+    analysis: RouteAnalysis
+  ): Promise<MatchResult> {
+    const vehicleClass = vehicleService.selectVehicleClass(
+      requests.reduce((sum, r) => sum + r.passenger_count, 0),
+      requests.reduce((sum, r) => sum + r.luggage_count, 0)
+    );
+    const created = await poolService.createPool(
+      requests.map((r) => r.id),
+      vehicleClass
+    );
+    const poolWithMembers = await poolService.getPoolWithMembers(created.id);
+    const pool = poolWithMembers?.pool || created;
+    const members = poolWithMembers?.members || [];
+
+    let totalSavings = 0;
+    for (const member of members) {
+      const request = requests.find((r) => r.id === member.ride_request_id);
+      if (!request) continue;
+      // Solo in the same vehicle class the pool was priced in
+      const soloPrice = await pricingService.calculatePrice(
+        request,
+        false,
+        1,
+        pool.vehicle_class,
+        undefined,
+        { readOnly: true }
+      );
+      totalSavings += soloPrice.final_price - Number(member.price);
     }
 
-    return pools;
+    const lastRequest = requests[requests.length - 1];
+    const tariff = await tariffService.resolveTariff(lastRequest, pool.vehicle_class);
+
+    const detourValues = Array.from(analysis.detours.values());
+    const averageDetour =
+      detourValues.length > 0
+        ? detourValues.reduce((a, b) => a + b, 0) / detourValues.length
+        : 0;
+
+    return {
+      pool,
+      members,
+      total_savings: totalSavings,
+      average_detour_km: parseFloat(averageDetour.toFixed(2)),
+      score: this.calculateMatchScore(analysis, pool, lastRequest, requests.slice(0, -1), tariff),
+    };
   }
 }
 
@@ -0,0 +1,205 @@
+import { db } from '../database/db';
+import { logger } from '../logger';
+import { MatchingJob, MatchingJobStatus } from '../models/types';
+import { config } from '../config';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+
+/**
+ * DURABLE MATCHING QUEUE
+ *
+ * Postgres-backed job queue for ride matching.
+ * - Jobs are enqueued in the same transaction as the ride insert, so a
+ *   committed ride always has a job and an aborted one never does
+ * - Workers claim jobs with FOR UPDATE SKIP LOCKED: concurrent workers
+ *   never receive the same job and never block each other
+ * - Failures are retried with exponential backoff (base × 2^(attempt-1));
+ *   after max_attempts a job moves to the dead-letter state
+ * - Jobs stuck in processing past the visibility timeout (crashed worker)
+ *   are returned to the queue
+ */
+
+export class MatchingQueue {
+  /**
+   * Enqueue a matching job (within transaction)
+   * Time: O(1), Space: O(1)
+   */
+  public async enqueueInternal(client: any, rideRequestId: string): Promise<void> {
+    await client.query(
+      `INSERT INTO matching_jobs (ride_request_id, max_attempts)
+       VALUES ($1, $2)`,
+      [rideRequestId, config.matchingQueue.maxAttempts]
+    );
+  }
+
+  /**
+   * Claim up to `limit` due jobs for a worker
+   * Time: O(limit), Space: O(limit)
+   */
+  public async claimJobs(workerId: string, limit: number): Promise<MatchingJob[]> {
+    const result = await db.query<MatchingJob>(
+      `UPDATE matching_jobs
+       SET status = 'processing', attempts = attempts + 1,
+           locked_at = CURRENT_TIMESTAMP, locked_by = $1
+       WHERE id IN (
+         SELECT id FROM matching_jobs
+         WHERE status = 'queued' AND run_at <= CURRENT_TIMESTAMP
+         ORDER BY run_at ASC
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Mark a job as done
+   * Time: O(1), Space: O(1)
+   */
+  public async completeJob(id: string): Promise<void> {
+    await db.query(
+      `UPDATE matching_jobs
+       SET status = 'completed', locked_at = NULL, locked_by = NULL
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Record a failure: schedule a retry with backoff or dead-letter the job
+   * Time: O(1), Space: O(1)
+   */
+  public async failJob(job: MatchingJob, error: Error): Promise<void> {
+    const exhausted = job.attempts >= job.max_attempts;
+    const delayMs = config.matchingQueue.backoffBaseMs * Math.pow(2, job.attempts - 1);
+
+    await db.query(
+      `UPDATE matching_jobs
+       SET status = $1, last_error = $2, locked_at = NULL, locked_by = NULL,
+           run_at = CURRENT_TIMESTAMP + ($3 || ' milliseconds')::interval
+       WHERE id = $4`,
+      [exhausted ? 'dead' : 'queued', error.message, String(delayMs), job.id]
+    );
+
+    if (exhausted) {
+      logger.error('Matching job dead-lettered', {
+        jobId: job.id,
+        rideRequestId: job.ride_request_id,
+        attempts: job.attempts,
+        error: error.message,
+      });
+    } else {
+      logger.warn('Matching job failed, retry scheduled', {
+        jobId: job.id,
+        attempts: job.attempts,
+        retryInMs: delayMs,
+      });
+    }
+  }
+
+  /**
+   * Return jobs abandoned by crashed workers to the queue
+   * Time: O(s) where s = stale jobs, Space: O(1)
+   */
+  public async reclaimStaleJobs(): Promise<number> {
+    const result = await db.query(
+      `UPDATE matching_jobs
+       SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'queued' END,
+           last_error = COALESCE(last_error, 'Worker timed out'),
+           locked_at = NULL, locked_by = NULL
+       WHERE status = 'processing'
+       AND locked_at < CURRENT_TIMESTAMP - ($1 || ' milliseconds')::interval`,
+      [String(config.matchingQueue.visibilityTimeoutMs)]
+    );
+
+    if (result.rowCount > 0) {
+      logger.warn('Reclaimed stale matching jobs', { count: result.rowCount });
+    }
+
+    return result.rowCount;
+  }
+
+  /**
+   * Queue depth per status plus the oldest due job's age
+   * Time: O(j) where j = jobs, Space: O(1)
+   */
+  public async getStats(): Promise<{
+    counts: Record<MatchingJobStatus, number>;
+    oldest_queued_age_seconds: number | null;
+  }> {
+    const countsResult = await db.query<{ status: MatchingJobStatus; count: string }>(
+      'SELECT status, COUNT(*) as count FROM matching_jobs GROUP BY status'
+    );
+
+    const counts: Record<MatchingJobStatus, number> = {
+      queued: 0,
+      processing: 0,
+      completed: 0,
+      dead: 0,
+    };
+    for (const row of countsResult.rows) {
+      counts[row.status] = parseInt(row.count, 10);
+    }
+
+    const oldestResult = await db.query<{ age: string | null }>(
+      `SELECT EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - MIN(created_at))) as age
+       FROM matching_jobs WHERE status = 'queued'`
+    );
+    const age = oldestResult.rows[0]?.age;
+
+    return {
+      counts,
+      oldest_queued_age_seconds: age !== null && age !== undefined ? parseFloat(age) : null,
+    };
+  }
+
+  /**
+   * Most recent dead-lettered jobs
+   * Time: O(limit), Space: O(limit)
+   */
+  public async getFailedJobs(limit: number = 50): Promise<MatchingJob[]> {
+    const result = await db.query<MatchingJob>(
+      `SELECT * FROM matching_jobs
+       WHERE status = 'dead'
+       ORDER BY updated_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Move a dead job back to the queue with a fresh attempt budget
+   * Time: O(1), Space: O(1)
+   */
+  public async retryJob(id: string): Promise<MatchingJob> {
+    const current = await db.query<MatchingJob>('SELECT * FROM matching_jobs WHERE id = $1', [
+      id,
+    ]);
+
+    if (current.rows.length === 0) {
+      throw new NotFoundError('Matching job not found');
+    }
+
+    if (current.rows[0].status !== 'dead') {
+      throw new ConflictError('Only dead jobs can be retried', {
+        current_status: current.rows[0].status,
+      });
+    }
+
+    const result = await db.query<MatchingJob>(
+      `UPDATE matching_jobs
+       SET status = 'queued', attempts = 0, run_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+
+    return result.rows[0];
+  }
+}
+
+export const matchingQueue = new MatchingQueue();
@@ -0,0 +1,130 @@
+import { db } from '../database/db';
+import { PoolUnavailableError } from '../middleware/errorHandler';
+import { poolService } from './poolService';
+import { rideService } from './rideService';
+
+/**
+ * Concurrent joins against the configured PostgreSQL database (npm run
+ * migrate). An unreachable database fails the suite; set SKIP_DB_TESTS=true
+ * to skip it instead.
+ */
+
+const describeWithDb = process.env.SKIP_DB_TESTS === 'true' ? describe.skip : describe;
+
+const AIRPORT = { lat: 40.6413, lon: -73.7781 };
+const MIDTOWN = { lat: 40.758, lon: -73.9855 };
+
+let userId: string;
+let locationIds: string[] = [];
+const poolIds = new Set<string>();
+
+async function createRide(passengerCount: number): Promise<string> {
+  const ride = await rideService.createRideRequest({
+    user_id: userId,
+    pickup_location_id: locationIds[0],
+    dropoff_location_id: locationIds[1],
+    pickup_latitude: AIRPORT.lat,
+    pickup_longitude: AIRPORT.lon,
+    dropoff_latitude: MIDTOWN.lat,
+    dropoff_longitude: MIDTOWN.lon,
+    passenger_count: passengerCount,
+    luggage_count: 0,
+  });
+  return ride.id;
+}
+
+// A forming sedan pool with one seat left
+async function createPoolWithOneSeat(): Promise<string> {
+  const pool = await poolService.createPool([await createRide(3)], 'sedan');
+  poolIds.add(pool.id);
+  return pool.id;
+}
+
+async function poolState(poolId: string) {
+  const pool = await db.query(
+    'SELECT current_passenger_count, max_passengers FROM ride_pools WHERE id = $1',
+    [poolId]
+  );
+  const members = await db.query(
+    `SELECT pm.ride_request_id, rr.passenger_count FROM pool_members pm
+     JOIN ride_requests rr ON pm.ride_request_id = rr.id
+     WHERE pm.pool_id = $1`,
+    [poolId]
+  );
+  return { ...pool.rows[0], members: members.rows };
+}
+
+describeWithDb('PoolService concurrent joins', () => {
+  beforeAll(async () => {
+    const user = await db.query(
+      `INSERT INTO users (name, email, phone)
+       VALUES ('Pool Test', 'pool-test-' || gen_random_uuid() || '@example.com', '+15550100')
+       RETURNING id`
+    );
+    userId = user.rows[0].id;
+
+    const locations = await db.query(
+      `INSERT INTO locations (name, latitude, longitude, type)
+       VALUES ('Pool Test Airport', $1, $2, 'airport'), ('Pool Test Midtown', $3, $4, 'city')
+       RETURNING id`,
+      [AIRPORT.lat, AIRPORT.lon, MIDTOWN.lat, MIDTOWN.lon]
+    );
+    locationIds = locations.rows.map((r) => r.id);
+  });
+
+  afterAll(async () => {
+    if (userId) {
+      const pools = await db.query(
+        `SELECT DISTINCT pm.pool_id FROM pool_members pm
+         JOIN ride_requests rr ON pm.ride_request_id = rr.id
+         WHERE rr.user_id = $1`,
+        [userId]
+      );
+      pools.rows.forEach((r) => poolIds.add(r.pool_id));
+
+      await db.query('DELETE FROM users WHERE id = $1', [userId]);
+      await db.query('DELETE FROM ride_pools WHERE id = ANY($1)', [Array.from(poolIds)]);
+      await db.query('DELETE FROM locations WHERE id = ANY($1)', [locationIds]);
+    }
+    await db.close();
+  });
+
+  it('lets exactly one of several parallel matches take the last seat', async () => {
+    const poolId = await createPoolWithOneSeat();
+    const rideIds = await Promise.all([1, 2, 3, 4, 5].map(() => createRide(1)));
+
+    await Promise.all(rideIds.map((id) => rideService.matchRideRequest(id)));
+
+    const state = await poolState(poolId);
+    const joined = state.members.filter((m) => rideIds.includes(m.ride_request_id));
+    const seated = state.members.reduce((sum, m) => sum + m.passenger_count, 0);
+
+    expect(joined).toHaveLength(1);
+    expect(state.current_passenger_count).toBe(seated);
+    expect(state.current_passenger_count).toBeLessThanOrEqual(state.max_passengers);
+
+    // The others were matched elsewhere, none left pending
+    const rides = await db.query('SELECT status FROM ride_requests WHERE id = ANY($1)', [
+      rideIds,
+    ]);
+    expect(rides.rows.every((r) => r.status === 'matched')).toBe(true);
+  });
+
+  it('rejects every parallel join after the pool fills', async () => {
+    const poolId = await createPoolWithOneSeat();
+    const rideIds = await Promise.all([1, 2, 3, 4].map(() => createRide(1)));
+
+    const results = await Promise.allSettled(
+      rideIds.map((id) => poolService.addMemberToPool(poolId, id))
+    );
+
+    const rejected = results.filter((r) => r.status === 'rejected') as PromiseRejectedResult[];
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(rejected).toHaveLength(3);
+    rejected.forEach((r) => expect(r.reason).toBeInstanceOf(PoolUnavailableError));
+
+    const state = await poolState(poolId);
+    expect(state.members).toHaveLength(2);
+    expect(state.current_passenger_count).toBeLessThanOrEqual(state.max_passengers);
+  });
+});
@@ -1,9 +1,29 @@
 import { db } from '../database/db';
 import { redis } from '../database/redis';
 import { logger } from '../logger';
-import { RidePool, PoolMember, RideRequest, PoolStatus } from '../models/types';
-import { pricingService } from './pricingService';
+import {
+  RidePool,
+  PoolMember,
+  RideRequest,
+  PoolStatus,
+  PoolStop,
+  VehicleClass,
+  MatchScore,
+} from '../models/types';
+import { pricingService, PoolRouteContext } from './pricingService';
+import { routePlanner } from './routePlanner';
+import { vehicleService } from './vehicleService';
+import { matchingQueue } from './matchingQueue';
+import { chargeService } from './chargeService';
+import { ledgerService } from './ledgerService';
+import { promotionService } from './promotionService';
 import { config } from '../config';
+import {
+  NotFoundError,
+  ConflictError,
+  PoolUnavailableError,
+} from '../middleware/errorHandler';
+import { assertPoolTransition, assertRideTransition } from '../models/statusTransitions';
 
 /**
  * POOL SERVICE
@@ -16,25 +36,27 @@ import { config } from '../config';
 export class PoolService {
   /**
    * Create a new ride pool
-   * Time: O(n) where n = number of initial members, Space: O(1)
+   * Capacity limits come from the vehicle class until a vehicle is assigned
+   * Every initial member is priced at the full group's size and route
+   * Time: O(n * k) where n = number of initial members, k = stops, Space: O(n)
    */
-  public async createPool(rideRequestIds: string[]): Promise<RidePool> {
+  public async createPool(
+    rideRequestIds: string[],
+    vehicleClass: VehicleClass = config.defaultVehicleClass
+  ): Promise<RidePool> {
     return await db.transaction(async (client) => {
       // Generate unique pool code
       const poolCode = this.generatePoolCode();
+      const capacity = vehicleService.getClassCapacity(vehicleClass);
 
       // Create pool
       const poolResult = await client.query(
         `INSERT INTO ride_pools 
          (pool_code, status, current_passenger_count, current_luggage_count, 
-          max_passengers, max_luggage)
-         VALUES ($1, 'forming', 0, 0, $2, $3)
+          max_passengers, max_luggage, vehicle_class)
+         VALUES ($1, 'forming', 0, 0, $2, $3, $4)
          RETURNING *`,
-        [
-          poolCode,
-          config.ridePooling.maxPassengersPerPool,
-          config.ridePooling.maxLuggageCapacity,
-        ]
+        [poolCode, capacity.seats, capacity.luggage, vehicleClass]
       );
 
       const pool = poolResult.rows[0];
@@ -44,8 +66,15 @@ export class PoolService {
         await this.addMemberToPoolInternal(client, pool.id, rideRequestId);
       }
 
-      // Recalculate capacity
+      // Recalculate capacity and route
       await this.recalculatePoolCapacityInternal(client, pool.id);
+      const route = await this.refreshPoolRouteInternal(client, pool.id);
+
+      // Members were priced as they were added; price them all at the
+      // final pool size and route
+      if (route && route.requests.length > 1) {
+        await this.repriceMembersInternal(client, pool.id, route.requests, vehicleClass, route);
+      }
 
       logger.info('Pool created', {
         poolId: pool.id,
@@ -59,24 +88,55 @@ export class PoolService {
 
   /**
    * Add member to existing pool
-   * Time: O(1), Space: O(1)
+   * Throws PoolUnavailableError if the pool filled up or closed since it
+   * was read, so callers can fall back to another candidate
+   * The matcher's score breakdown, if any, is stored on the member row
+   * Time: O(n) where n = pool members, Space: O(1)
    */
-  public async addMemberToPool(poolId: string, rideRequestId: string): Promise<void> {
+  public async addMemberToPool(
+    poolId: string,
+    rideRequestId: string,
+    matchScore?: MatchScore
+  ): Promise<void> {
     await db.transaction(async (client) => {
-      await this.addMemberToPoolInternal(client, poolId, rideRequestId);
+      await this.addMemberToPoolInternal(client, poolId, rideRequestId, matchScore);
       await this.recalculatePoolCapacityInternal(client, poolId);
+      await this.refreshPoolRouteInternal(client, poolId);
     });
   }
 
   /**
    * Internal method to add member (within transaction)
-   * Time: O(1), Space: O(1)
+   * Locks the pool row first, then re-checks pool status and passenger /
+   * luggage capacity against the committed membership. Concurrent joins on
+   * the same pool are serialized by the lock, so capacity cannot overflow.
+   * Time: O(n) where n = pool members, Space: O(1)
    */
   private async addMemberToPoolInternal(
     client: any,
     poolId: string,
-    rideRequestId: string
+    rideRequestId: string,
+    matchScore?: MatchScore
   ): Promise<void> {
+    // Lock the pool row; serializes concurrent joins
+    const poolResult = await client.query(
+      'SELECT * FROM ride_pools WHERE id = $1 FOR UPDATE',
+      [poolId]
+    );
+
+    if (poolResult.rows.length === 0) {
+      throw new NotFoundError('Pool not found');
+    }
+
+    const pool: RidePool = poolResult.rows[0];
+
+    if (pool.status !== 'forming' && pool.status !== 'confirmed') {
+      throw new PoolUnavailableError(`Pool is ${pool.status} and cannot accept members`, {
+        pool_id: poolId,
+        pool_status: pool.status,
+      });
+    }
+
     // Get ride request details
     const rideResult = await client.query(
       'SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE',
@@ -84,7 +144,7 @@ export class PoolService {
     );
 
     if (rideResult.rows.length === 0) {
-      throw new Error('Ride request not found');
+      throw new NotFoundError('Ride request not found');
     }
 
     const ride = rideResult.rows[0];
@@ -96,29 +156,64 @@ export class PoolService {
     );
 
     if (existingMember.rows.length > 0) {
-      throw new Error('Ride already in a pool');
+      throw new ConflictError('Ride already in a pool');
     }
 
-    // Get current member count for sequencing
-    const memberCountResult = await client.query(
-      'SELECT COUNT(*) as count FROM pool_members WHERE pool_id = $1',
+    assertRideTransition(ride.status, 'matched');
+
+    // Re-check capacity against committed membership
+    const occupancyResult = await client.query(
+      `SELECT COUNT(*) as count,
+              COALESCE(SUM(rr.passenger_count), 0) as passengers,
+              COALESCE(SUM(rr.luggage_count), 0) as luggage
+       FROM pool_members pm
+       JOIN ride_requests rr ON pm.ride_request_id = rr.id
+       WHERE pm.pool_id = $1`,
       [poolId]
     );
 
-    const currentCount = parseInt(memberCountResult.rows[0].count, 10);
+    const currentCount = parseInt(occupancyResult.rows[0].count, 10);
+    const passengers = parseInt(occupancyResult.rows[0].passengers, 10) + ride.passenger_count;
+    const luggage = parseInt(occupancyResult.rows[0].luggage, 10) + ride.luggage_count;
+
+    if (passengers > pool.max_passengers || luggage > pool.max_luggage) {
+      throw new PoolUnavailableError('Pool does not have enough capacity', {
+        pool_id: poolId,
+        passengers,
+        max_passengers: pool.max_passengers,
+        luggage,
+        max_luggage: pool.max_luggage,
+      });
+    }
+
+    // Calculate price on the route the pool will take with this rider
+    const existing = await this.getMemberRequestsInternal(client, poolId);
+    const routeRequests = [...existing, ride];
+    const plan = routePlanner.planRoute(routeRequests, routePlanner.routeStart(routeRequests));
+    const route = plan ? { requests: routeRequests, plan } : undefined;
 
-    // Calculate price
     const isPooled = currentCount > 0;
     const poolSize = currentCount + 1;
-    const priceBreakdown = await pricingService.calculatePrice(ride, isPooled, poolSize);
+    const priceBreakdown = await pricingService.calculatePrice(
+      ride,
+      isPooled,
+      poolSize,
+      pool.vehicle_class,
+      route
+    );
 
-    // Insert pool member
+    // Insert pool member; sequences and detour are set by refreshPoolRouteInternal
     await client.query(
       `INSERT INTO pool_members 
        (pool_id, ride_request_id, pickup_sequence, dropoff_sequence, 
-        detour_distance_km, price)
-       VALUES ($1, $2, $3, $4, 0, $5)`,
-      [poolId, rideRequestId, currentCount + 1, (currentCount + 1) * 2, priceBreakdown.final_price]
+        detour_distance_km, price, match_score)
+       VALUES ($1, $2, 0, 0, 0, $3, $4)`,
+      [
+        poolId,
+        rideRequestId,
+        priceBreakdown.final_price,
+        matchScore ? JSON.stringify(matchScore) : null,
+      ]
     );
 
     // Update ride status
@@ -129,8 +224,13 @@ export class PoolService {
       [rideRequestId]
     );
 
-    // Save pricing history
-    await pricingService.savePricingHistory(rideRequestId, priceBreakdown);
+    // Save pricing history (and the ride's promo and credit usage)
+    await pricingService.savePricingHistory(rideRequestId, priceBreakdown, client);
+
+    // Cost-sharing members' shares change with the route
+    if (route && priceBreakdown.pricing_mode === 'cost_sharing') {
+      await this.repriceMembersInternal(client, poolId, existing, pool.vehicle_class, route, true);
+    }
 
     // Invalidate caches
     await redis.del(`ride:${rideRequestId}`);
@@ -150,6 +250,7 @@ export class PoolService {
   public async recalculatePoolCapacity(poolId: string): Promise<void> {
     await db.transaction(async (client) => {
       await this.recalculatePoolCapacityInternal(client, poolId);
+      await this.refreshPoolRouteInternal(client, poolId);
     });
   }
 
@@ -200,6 +301,157 @@ export class PoolService {
     await redis.del(`pool:${poolId}`);
   }
 
+  /**
+   * Re-optimize the pool route and persist it (within transaction)
+   * Writes each member's pickup/dropoff sequence and real detour, the
+   * pool's route distance, duration and estimated departure, and rebuilds
+   * pool_stops. Returns the route members are priced on (null when empty)
+   * Once riders share the pool, a route that breaks a member's detour
+   * tolerance or time window throws PoolUnavailableError before anything
+   * is written; with enforceConstraints off it is persisted with a warning
+   * Time: O(2^k * k²) where k = stops, Space: O(2^k * k)
+   */
+  private async refreshPoolRouteInternal(
+    client: any,
+    poolId: string,
+    enforceConstraints: boolean = true
+  ): Promise<PoolRouteContext | null> {
+    const requests = await this.getMemberRequestsInternal(client, poolId);
+    const plan =
+      requests.length > 0
+        ? routePlanner.planRoute(requests, routePlanner.routeStart(requests))
+        : null;
+
+    const violation =
+      plan && requests.length > 1 ? routePlanner.findViolation(requests, plan) : null;
+    if (violation && enforceConstraints) {
+      throw new PoolUnavailableError('Pool route violates a member constraint', {
+        pool_id: poolId,
+        ...violation,
+      });
+    }
+
+    // Stops are always rebuilt from scratch
+    await client.query('DELETE FROM pool_stops WHERE pool_id = $1', [poolId]);
+
+    if (!plan) {
+      await client.query(
+        `UPDATE ride_pools 
+         SET route_distance_km = NULL, estimated_duration_minutes = NULL,
+             estimated_departure = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [poolId]
+      );
+      return null;
+    }
+
+    for (const req of requests) {
+      const pickup = plan.stops.find(
+        (s) => s.ride_request_id === req.id && s.stop_type === 'pickup'
+      );
+      const dropoff = plan.stops.find(
+        (s) => s.ride_request_id === req.id && s.stop_type === 'dropoff'
+      );
+
+      await client.query(
+        `UPDATE pool_members 
+         SET pickup_sequence = $1, dropoff_sequence = $2, detour_distance_km = $3
+         WHERE pool_id = $4 AND ride_request_id = $5`,
+        [
+          pickup.sequence,
+          dropoff.sequence,
+          parseFloat((plan.detours.get(req.id) || 0).toFixed(2)),
+          poolId,
+          req.id,
+        ]
+      );
+    }
+
+    // Departure from members' time windows; arrivals offset at average speed
+    const { departure, feasible } = routePlanner.computeSchedule(requests, plan);
+    if (violation || !feasible) {
+      logger.warn('Pool route violates a member constraint', {
+        poolId,
+        constraint: violation ? violation.constraint : 'time_window',
+      });
+    }
+
+    for (const stop of plan.stops) {
+      const offsetMs =
+        (stop.cumulative_distance_km / config.ridePooling.averageSpeedKmh) * 3600 * 1000;
+
+      await client.query(
+        `INSERT INTO pool_stops 
+         (pool_id, ride_request_id, stop_sequence, stop_type, latitude, longitude,
+          planned_arrival_at, cumulative_distance_km)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          poolId,
+          stop.ride_request_id,
+          stop.sequence,
+          stop.stop_type,
+          stop.latitude,
+          stop.longitude,
+          new Date(departure.getTime() + offsetMs),
+          parseFloat(stop.cumulative_distance_km.toFixed(2)),
+        ]
+      );
+    }
+
+    await client.query(
+      `UPDATE ride_pools 
+       SET route_distance_km = $1, estimated_duration_minutes = $2,
+           estimated_departure = $3, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4`,
+      [
+        parseFloat(plan.total_distance_km.toFixed(2)),
+        plan.estimated_duration_minutes,
+        departure,
+        poolId,
+      ]
+    );
+
+    await redis.del(`pool:${poolId}`);
+
+    return { requests, plan };
+  }
+
+  /**
+   * Ride requests of a pool's members in join order, the order
+   * RoutePlanner.routeStart expects
+   * Time: O(n) where n = members, Space: O(n)
+   */
+  private async getMemberRequestsInternal(client: any, poolId: string): Promise<RideRequest[]> {
+    const result = await client.query(
+      `SELECT rr.* FROM pool_members pm
+       JOIN ride_requests rr ON pm.ride_request_id = rr.id
+       WHERE pm.pool_id = $1
+       ORDER BY pm.joined_at, rr.requested_at, rr.id`,
+      [poolId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get the persisted ordered route for a pool
+   * Time: O(k) where k = stops, Space: O(k)
+   */
+  public async getPoolRoute(id: string): Promise<PoolStop[] | null> {
+    const pool = await this.getPool(id);
+    if (!pool) {
+      return null;
+    }
+
+    const result = await db.query<PoolStop>(
+      `SELECT * FROM pool_stops 
+       WHERE pool_id = $1 
+       ORDER BY stop_sequence`,
+      [id]
+    );
+
+    return result.rows;
+  }
+
   /**
    * Get pool by ID with caching
    * Time: O(1), Space: O(1)
@@ -261,24 +513,171 @@ export class PoolService {
 
   /**
    * Update pool status
-   * Time: O(1), Space: O(1)
+   * Enforces POOL_TRANSITIONS plus guards, manages the vehicle and cascades
+   * the change to member rides:
+   * - confirmed: assigns a vehicle (the given one or the best fit)
+   * - forming: releases the vehicle and restores class capacity
+   * - in_progress: requires a vehicle; member rides → confirmed
+   * - completed: member rides → completed; vehicle released
+   * - cancelled: matched rides re-queued to pending, confirmed rides
+   *   cancelled; vehicle released
+   * Time: O(n) where n = pool members, Space: O(n)
    */
-  public async updatePoolStatus(id: string, status: PoolStatus): Promise<RidePool> {
-    const result = await db.query<RidePool>(
-      `UPDATE ride_pools 
-       SET status = $1, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2
-       RETURNING *`,
-      [status, id]
+  public async updatePoolStatus(
+    id: string,
+    status: PoolStatus,
+    vehicleId?: string
+  ): Promise<RidePool> {
+    return await db.transaction(async (client) => {
+      const poolResult = await client.query(
+        'SELECT * FROM ride_pools WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (poolResult.rows.length === 0) {
+        throw new NotFoundError('Pool not found');
+      }
+
+      let pool: RidePool = poolResult.rows[0];
+
+      assertPoolTransition(pool.status, status);
+
+      if (status === 'confirmed') {
+        if (pool.current_passenger_count === 0) {
+          throw new ConflictError('Cannot confirm a pool without members');
+        }
+        if (!pool.vehicle_id) {
+          pool = await vehicleService.assignVehicleInternal(client, pool, vehicleId);
+        }
+      }
+
+      if (status === 'forming') {
+        await vehicleService.releaseVehicleInternal(client, pool);
+        const capacity = vehicleService.getClassCapacity(pool.vehicle_class);
+        await client.query(
+          `UPDATE ride_pools 
+           SET vehicle_id = NULL, max_passengers = $1, max_luggage = $2
+           WHERE id = $3`,
+          [capacity.seats, capacity.luggage, id]
+        );
+      }
+
+      if (status === 'in_progress') {
+        if (!pool.vehicle_id) {
+          throw new ConflictError('A pool cannot be in_progress without a vehicle');
+        }
+        await client.query(
+          `UPDATE vehicles SET status = 'in_service', updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1`,
+          [pool.vehicle_id]
+        );
+      }
+
+      if (status === 'completed' || status === 'cancelled') {
+        await vehicleService.releaseVehicleInternal(client, pool);
+      }
+
+      await this.cascadeMemberRidesInternal(client, id, status);
+
+      const result = await client.query(
+        `UPDATE ride_pools 
+         SET status = $1,
+             actual_departure = CASE WHEN $3 THEN CURRENT_TIMESTAMP ELSE actual_departure END,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [status, id, status === 'in_progress']
+      );
+
+      await redis.del(`pool:${id}`);
+
+      logger.info('Pool status updated', {
+        poolId: id,
+        previousStatus: pool.status,
+        status,
+      });
+
+      return result.rows[0];
+    });
+  }
+
+  /**
+   * Propagate a pool status change to its member rides (within transaction)
+   * Time: O(n) where n = pool members, Space: O(n)
+   */
+  private async cascadeMemberRidesInternal(
+    client: any,
+    poolId: string,
+    poolStatus: PoolStatus
+  ): Promise<void> {
+    const membersResult = await client.query(
+      'SELECT ride_request_id FROM pool_members WHERE pool_id = $1',
+      [poolId]
     );
+    const rideIds: string[] = membersResult.rows.map((m) => m.ride_request_id);
 
-    if (result.rows.length === 0) {
-      throw new Error('Pool not found');
+    if (rideIds.length === 0) {
+      return;
     }
 
-    await redis.del(`pool:${id}`);
+    if (poolStatus === 'in_progress') {
+      await client.query(
+        `UPDATE ride_requests SET status = 'confirmed', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1) AND status = 'matched'`,
+        [rideIds]
+      );
+    } else if (poolStatus === 'completed') {
+      const completed = await client.query(
+        `UPDATE ride_requests SET status = 'completed', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1) AND status = 'confirmed'
+         RETURNING id`,
+        [rideIds]
+      );
+      // Post each member's fare, then check the pool's books balance
+      for (const row of completed.rows) {
+        await ledgerService.postRideFareInternal(client, row.id, poolId);
+      }
+      await ledgerService.reconcilePoolInternal(client, poolId);
+    } else if (poolStatus === 'cancelled') {
+      // Riders did not cancel: re-queue those not yet on board
+      await client.query(
+        `UPDATE ride_requests SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1) AND status = 'matched'`,
+        [rideIds]
+      );
+      // Riders already on board are cancelled by the system: fee waived
+      const onBoard = await client.query(
+        `SELECT * FROM ride_requests WHERE id = ANY($1) AND status = 'confirmed'`,
+        [rideIds]
+      );
+      for (const ride of onBoard.rows) {
+        await chargeService.assessCancellationInternal(client, ride, 'system', poolId);
+        await promotionService.releaseRideInternal(client, ride.id);
+      }
+      await client.query(
+        `UPDATE ride_requests
+         SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP,
+             cancellation_reason = 'system', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ANY($1) AND status = 'confirmed'`,
+        [rideIds]
+      );
+      const requeued = await client.query(
+        `DELETE FROM pool_members 
+         WHERE pool_id = $1 AND ride_request_id IN (
+           SELECT id FROM ride_requests WHERE id = ANY($2) AND status = 'pending'
+         )
+         RETURNING ride_request_id`,
+        [poolId, rideIds]
+      );
+      for (const row of requeued.rows) {
+        await matchingQueue.enqueueInternal(client, row.ride_request_id);
+      }
+      await client.query('DELETE FROM pool_stops WHERE pool_id = $1', [poolId]);
+    }
 
-    return result.rows[0];
+    for (const rideId of rideIds) {
+      await redis.del(`ride:${rideId}`);
+    }
   }
 
   /**
@@ -311,33 +710,209 @@ export class PoolService {
 
   /**
    * Remove member from pool
-   * Time: O(1), Space: O(1)
+   * A removed ride that was still only matched is re-queued as pending
+   * Time: O(n) where n = remaining members, Space: O(n)
    */
   public async removeMemberFromPool(poolId: string, rideRequestId: string): Promise<void> {
     await db.transaction(async (client) => {
+      const removed = await this.detachMemberInternal(client, poolId, rideRequestId);
+      if (!removed) {
+        throw new NotFoundError('Ride is not a member of this pool');
+      }
+
+      const requeued = await client.query(
+        `UPDATE ride_requests SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'matched'`,
+        [rideRequestId]
+      );
+      if (requeued.rowCount > 0) {
+        await matchingQueue.enqueueInternal(client, rideRequestId);
+      }
+
+      await redis.del(`ride:${rideRequestId}`);
+    });
+  }
+
+  /**
+   * Detach a member and repair the pool (within transaction)
+   * Locks the pool row, deletes the membership, then repairs the pool via
+   * repairPoolInternal. Does not change the detached ride's status.
+   * Returns false if the ride was not a member.
+   * Time: O(n) where n = remaining members, Space: O(n)
+   */
+  public async detachMemberInternal(
+    client: any,
+    poolId: string,
+    rideRequestId: string
+  ): Promise<boolean> {
+    await client.query('SELECT id FROM ride_pools WHERE id = $1 FOR UPDATE', [poolId]);
+
+    const deleted = await client.query(
+      'DELETE FROM pool_members WHERE pool_id = $1 AND ride_request_id = $2',
+      [poolId, rideRequestId]
+    );
+
+    if (deleted.rowCount === 0) {
+      return false;
+    }
+
+    await this.repairPoolInternal(client, poolId);
+
+    await redis.del(`pool:${poolId}`);
+
+    logger.info('Member detached from pool', { poolId, rideRequestId });
+
+    return true;
+  }
+
+  /**
+   * Bring a pool back to a consistent state after losing a member
+   * (within transaction)
+   * - no members left: pool cancelled, vehicle released
+   * - one member left before departure: pool cancelled, vehicle released,
+   *   rider re-queued as pending at the solo price
+   * - a re-optimized route that breaks a remaining member's detour or time
+   *   window before departure: pool dissolved the same way, every rider
+   *   re-queued
+   * - otherwise: route re-optimized and remaining members re-priced for
+   *   the smaller pool
+   * Every price change is recorded in pricing_history.
+   * Time: O(n) where n = remaining members, Space: O(n)
+   */
+  private async repairPoolInternal(client: any, poolId: string): Promise<void> {
+    await this.recalculatePoolCapacityInternal(client, poolId);
+
+    const poolResult = await client.query('SELECT * FROM ride_pools WHERE id = $1', [poolId]);
+    const pool: RidePool = poolResult.rows[0];
+
+    const remaining = await this.getMemberRequestsInternal(client, poolId);
+
+    const beforeDeparture = pool.status === 'forming' || pool.status === 'confirmed';
+
+    if (remaining.length === 0 || (remaining.length === 1 && beforeDeparture)) {
+      await this.dissolvePoolInternal(client, pool, remaining);
+      return;
+    }
+
+    let route: PoolRouteContext | null;
+    try {
+      route = await this.refreshPoolRouteInternal(client, poolId, beforeDeparture);
+    } catch (error) {
+      if (!(error instanceof PoolUnavailableError)) {
+        throw error;
+      }
+      logger.warn('Pool dissolved: route no longer fits its members', {
+        poolId,
+        reason: error.message,
+      });
+      await this.dissolvePoolInternal(client, pool, remaining);
+      return;
+    }
+
+    await this.repriceMembersInternal(
+      client,
+      poolId,
+      remaining,
+      pool.vehicle_class,
+      route || undefined
+    );
+  }
+
+  /**
+   * Cancel a pool and put its remaining riders back in the matching queue
+   * at the solo price; the vehicle is released (within transaction)
+   * Time: O(n) where n = remaining members, Space: O(1)
+   */
+  private async dissolvePoolInternal(
+    client: any,
+    pool: RidePool,
+    remaining: RideRequest[]
+  ): Promise<void> {
+    const poolId = pool.id;
+
+    for (const ride of remaining) {
       await client.query(
         'DELETE FROM pool_members WHERE pool_id = $1 AND ride_request_id = $2',
-        [poolId, rideRequestId]
+        [poolId, ride.id]
+      );
+      await client.query(
+        `UPDATE ride_requests SET status = 'pending', updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND status = 'matched'`,
+        [ride.id]
       );
 
-      await this.recalculatePoolCapacityInternal(client, poolId);
+      const soloPrice = await pricingService.calculatePrice(ride, false, 1);
+      await pricingService.savePricingHistory(ride.id, soloPrice, client);
+      await matchingQueue.enqueueInternal(client, ride.id);
+      await redis.del(`ride:${ride.id}`);
 
-      // Check if pool is now empty
-      const memberCount = await client.query(
-        'SELECT COUNT(*) as count FROM pool_members WHERE pool_id = $1',
-        [poolId]
-      );
+      logger.info('Ride re-queued after pool dissolved', { poolId, rideRequestId: ride.id });
+    }
 
-      if (parseInt(memberCount.rows[0].count, 10) === 0) {
-        await client.query(
-          `UPDATE ride_pools SET status = 'cancelled' WHERE id = $1`,
-          [poolId]
-        );
+    await client.query('DELETE FROM pool_stops WHERE pool_id = $1', [poolId]);
+    await client.query(
+      `UPDATE ride_pools 
+       SET status = 'cancelled', current_passenger_count = 0, current_luggage_count = 0,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [poolId]
+    );
+    await vehicleService.releaseVehicleInternal(client, pool);
+  }
+
+  /**
+   * Re-price members for the current pool size and route (within transaction)
+   * Each member keeps the surge recorded in pricing_history when they
+   * joined, so another rider joining or leaving never exposes them to a
+   * later surge
+   * With costSharingOnly, members priced with a flat discount keep their price
+   * Time: O(n * k) where n = members, k = stops, Space: O(n)
+   */
+  private async repriceMembersInternal(
+    client: any,
+    poolId: string,
+    members: RideRequest[],
+    vehicleClass: VehicleClass,
+    route?: PoolRouteContext,
+    costSharingOnly: boolean = false
+  ): Promise<void> {
+    const poolSize = route ? route.requests.length : members.length;
+
+    const surgeResult = await client.query(
+      `SELECT DISTINCT ON (ph.ride_request_id) ph.ride_request_id, ph.surge_multiplier
+       FROM pool_members pm
+       JOIN pricing_history ph
+         ON ph.ride_request_id = pm.ride_request_id AND ph.calculated_at >= pm.joined_at
+       WHERE pm.pool_id = $1
+       ORDER BY ph.ride_request_id, ph.calculated_at ASC`,
+      [poolId]
+    );
+    const joinSurge = new Map<string, number>(
+      surgeResult.rows.map((r) => [r.ride_request_id, Number(r.surge_multiplier)])
+    );
+
+    for (const ride of members) {
+      const breakdown = await pricingService.calculatePrice(
+        ride,
+        poolSize > 1,
+        poolSize,
+        vehicleClass,
+        route,
+        { surgeMultiplier: joinSurge.get(ride.id) }
+      );
+      if (costSharingOnly && breakdown.pricing_mode !== 'cost_sharing') {
+        continue;
       }
 
-      await redis.del(`pool:${poolId}`);
-      await redis.del(`ride:${rideRequestId}`);
-    });
+      await client.query(
+        'UPDATE pool_members SET price = $1 WHERE pool_id = $2 AND ride_request_id = $3',
+        [breakdown.final_price, poolId, ride.id]
+      );
+      await pricingService.savePricingHistory(ride.id, breakdown, client);
+      await redis.del(`ride:${ride.id}`);
+    }
+
+    logger.info('Pool members re-priced', { poolId, poolSize });
   }
 }
 
@@ -0,0 +1,304 @@
+import { config } from '../config';
+import { Promotion, RideRequest, RoutePlan, RouteStopType, Tariff } from '../models/types';
+import { formatMinorUnits } from '../utils/money';
+import { PoolRouteContext, pricingService } from './pricingService';
+import { promotionService } from './promotionService';
+import { tariffService } from './tariffService';
+
+/**
+ * Cost-sharing split of a pool's route among its members, and itemized
+ * prices in several currencies. Pure, no database: plans are built by hand
+ * with round distances, and tariff, demand and promo lookups are stubbed.
+ */
+
+function ride(id: string, passengers: number, overrides: Partial<RideRequest> = {}): RideRequest {
+  return {
+    id,
+    user_id: `user-${id}`,
+    pickup_location_id: 'airport',
+    dropoff_location_id: 'city',
+    pickup_latitude: 0,
+    pickup_longitude: 0,
+    dropoff_latitude: 0,
+    dropoff_longitude: 0,
+    passenger_count: passengers,
+    luggage_count: 0,
+    max_detour_km: 5,
+    status: 'matched',
+    requested_at: new Date(),
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function tariff(overrides: Partial<Tariff> = {}): Tariff {
+  return {
+    id: 'tariff',
+    code: 'test',
+    version: 1,
+    base_fare: 4,
+    per_km_rate: 2,
+    per_minute_rate: 0,
+    minimum_fare: 0,
+    airport_access_fee: 0,
+    max_surge_multiplier: 2,
+    pool_discount_percent: 20,
+    pool_pricing_mode: 'cost_sharing',
+    currency: 'USD',
+    tax_lines: null,
+    effective_from: new Date(0),
+    ...overrides,
+  };
+}
+
+type Stop = [string, RouteStopType, number];
+
+// Route through `stops` ([request, type, cumulative km]) with per-member detours
+function route(
+  passengers: Record<string, number>,
+  stops: Stop[],
+  detours: Record<string, number> = {}
+): PoolRouteContext {
+  const plan: RoutePlan = {
+    stops: stops.map(([id, type, km], i) => ({
+      ride_request_id: id,
+      stop_type: type,
+      latitude: 0,
+      longitude: 0,
+      sequence: i + 1,
+      cumulative_distance_km: km,
+    })),
+    detours: new Map(Object.keys(passengers).map((id) => [id, detours[id] || 0])),
+    total_distance_km: stops[stops.length - 1][2],
+    estimated_duration_minutes: 0,
+  };
+  return {
+    requests: Object.entries(passengers).map(([id, count]) => ride(id, count)),
+    plan,
+  };
+}
+
+function costShare(
+  id: string,
+  context: PoolRouteContext,
+  rates: Tariff = tariff(),
+  surge = 1,
+  soloSubtotal = 100000
+) {
+  const request = context.requests.find((r) => r.id === id);
+  return pricingService['calculateCostShare'](request, context, rates, surge, soloSubtotal);
+}
+
+// Two riders on one 10 km trip
+const together = (a: number, b: number) =>
+  route({ a, b }, [
+    ['a', 'pickup', 0],
+    ['b', 'pickup', 0],
+    ['a', 'dropoff', 10],
+    ['b', 'dropoff', 10],
+  ]);
+
+// a rides 0-20 km, b boards at 10 km and rides on to 30 km
+const overlapping = route({ a: 1, b: 1 }, [
+  ['a', 'pickup', 0],
+  ['b', 'pickup', 10],
+  ['a', 'dropoff', 20],
+  ['b', 'dropoff', 30],
+]);
+
+describe('PricingService cost sharing', () => {
+  const ridePooling = { ...config.ridePooling };
+
+  beforeEach(() => {
+    config.ridePooling.detourCompensationPercent = 50;
+    config.ridePooling.averageSpeedKmh = 30;
+  });
+
+  afterEach(() => {
+    Object.assign(config.ridePooling, ridePooling);
+  });
+
+  it.each([
+    // name, route, member, share km, shared km, base share, distance share, total
+    ['two riders on one trip', together(1, 1), 'a', 5, 10, 200, 1000, 1200],
+    ['a party of three beside a single rider', together(1, 3), 'b', 7.5, 10, 300, 1500, 1800],
+    ['a single rider beside a party of three', together(1, 3), 'a', 2.5, 10, 100, 500, 600],
+    ['a rider alone until the second boards', overlapping, 'a', 15, 10, 200, 3000, 3200],
+    ['a rider alone after the first leaves', overlapping, 'b', 15, 10, 200, 3000, 3200],
+  ])('shares the route cost for %s', (_name, context, id, shareKm, sharedKm, base, km, total) => {
+    expect(costShare(id, context)).toMatchObject({
+      share_km: shareKm,
+      shared_km: sharedKm,
+      base_share: base,
+      distance_share: km,
+      shared_cost: total,
+      capped_at_solo: false,
+    });
+  });
+
+  it.each([
+    ['a shared trip', together(1, 3)],
+    ['an overlapping trip', overlapping],
+  ])("adds members' km shares up to the route on %s", (_name, context) => {
+    const shares = context.requests.map((r) => costShare(r.id, context).share_km);
+
+    expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(context.plan.total_distance_km, 9);
+  });
+
+  it.each([
+    ['time at the per-minute rate', tariff({ per_minute_rate: 0.5 }), 1, 1700],
+    ['surge on the whole share', tariff(), 1.5, 1800],
+    [
+      'yen, which have no minor unit',
+      tariff({ currency: 'JPY', base_fare: 400, per_km_rate: 200 }),
+      1,
+      1200,
+    ],
+  ])('charges %s', (_name, rates, surge, total) => {
+    expect(costShare('a', together(1, 1), rates, surge).shared_cost).toBe(total);
+  });
+
+  it('refunds part of a detour', () => {
+    const context = route(
+      { a: 1, b: 1 },
+      [
+        ['a', 'pickup', 0],
+        ['b', 'pickup', 0],
+        ['a', 'dropoff', 10],
+        ['b', 'dropoff', 10],
+      ],
+      { a: 2 }
+    );
+
+    const share = costShare('a', context);
+
+    // 2 km × 2/km × 50%
+    expect(share.detour_compensation).toBe(200);
+    expect(share.shared_cost).toBe(1000);
+  });
+
+  it('never charges more than the solo price', () => {
+    const share = costShare('a', overlapping, tariff(), 1, 2500);
+
+    expect(share).toMatchObject({ shared_cost: 2500, solo_cost: 2500, capped_at_solo: true });
+  });
+});
+
+describe('PricingService price lines', () => {
+  // JFK → Midtown, ~21.6 km
+  const trip = ride('r', 1, {
+    pickup_latitude: 40.6413,
+    pickup_longitude: -73.7781,
+    dropoff_latitude: 40.758,
+    dropoff_longitude: -73.9855,
+  });
+
+  const promotion = (overrides: Partial<Promotion>): Promotion => ({
+    id: 'promo',
+    code: 'SAVE',
+    discount_type: 'percent',
+    discount_value: 15,
+    currency: 'USD',
+    max_redemptions_per_user: 1,
+    first_pooled_ride_only: false,
+    redemption_count: 0,
+    valid_from: new Date(0),
+    active: true,
+    created_at: new Date(0),
+    updated_at: new Date(0),
+    ...overrides,
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const taxes = [
+    { code: 'sales_tax', type: 'percent' as const, rate: 8.875 },
+    { code: 'facility_fee', type: 'fixed' as const, rate: 1.333 },
+  ];
+
+  it.each([
+    [
+      'USD solo with taxes',
+      tariff({ per_km_rate: 1.37, tax_lines: taxes }),
+      1.3,
+      false,
+      {},
+      ['surge', 'sales_tax', 'facility_fee'],
+    ],
+    [
+      'USD pooled with a quote cap',
+      tariff({ per_km_rate: 2.91, airport_access_fee: 2.75, tax_lines: taxes }),
+      1.7,
+      true,
+      { request: { quoted_price: 5000, quote_currency: 'USD' } },
+      ['pool_discount', 'airport_fee', 'quote_adjustment'],
+    ],
+    [
+      'JPY with a percent promo and credits',
+      tariff({ currency: 'JPY', base_fare: 500, per_km_rate: 333.3, tax_lines: taxes }),
+      1.15,
+      true,
+      { promotion: promotion({ currency: 'JPY' }), credits: 777 },
+      ['pool_discount', 'promo_discount', 'credits_applied'],
+    ],
+    [
+      'KWD with a fixed promo and a minimum fare',
+      tariff({
+        currency: 'KWD',
+        base_fare: 0.35,
+        per_km_rate: 0.1234,
+        per_minute_rate: 0.0171,
+        minimum_fare: 9.9995,
+        tax_lines: taxes,
+      }),
+      1.45,
+      false,
+      { promotion: promotion({ currency: 'KWD', discount_type: 'fixed', discount_value: 1250 }) },
+      ['minimum_fare', 'promo_discount'],
+    ],
+  ])('sums the lines for %s to final_price', async (_name, rates, surge, pooled, setup, codes) => {
+    const { request = {}, promotion: promo = null, credits = 0 } = setup as {
+      request?: Partial<RideRequest>;
+      promotion?: Promotion;
+      credits?: number;
+    };
+    jest.spyOn(tariffService, 'resolveTariff').mockResolvedValue(rates);
+    jest.spyOn(pricingService as any, 'getDemandFactor').mockResolvedValue(0);
+    jest
+      .spyOn(promotionService, 'getPricingAdjustments')
+      .mockResolvedValue({ promotion: promo, availableCredits: credits });
+
+    const price = await pricingService.calculatePrice(
+      { ...trip, ...request },
+      pooled,
+      2,
+      'sedan',
+      undefined,
+      { surgeMultiplier: surge, readOnly: true }
+    );
+
+    expect(price.currency).toBe(rates.currency);
+    expect(price.lines.map((line) => line.code)).toEqual(expect.arrayContaining(codes));
+    price.lines.forEach((line) => expect(Number.isInteger(line.amount)).toBe(true));
+    expect(price.lines.reduce((sum, line) => sum + line.amount, 0)).toBe(price.final_price);
+    expect(price.final_price).toBe(
+      price.subtotal +
+        price.surge_amount -
+        price.pool_discount +
+        price.airport_fee +
+        price.tax_total -
+        price.quote_adjustment -
+        price.promo_discount -
+        price.credits_applied
+    );
+    // What a receipt prints adds up to the printed total
+    const printed = price.lines.map((line) => formatMinorUnits(line.amount, price.currency));
+    expect(printed.reduce((sum, amount) => sum + Number(amount), 0)).toBeCloseTo(
+      Number(formatMinorUnits(price.final_price, price.currency)),
+      9
+    );
+  });
+});
@@ -1,116 +1,492 @@
 import { config } from '../config';
-import { RideRequest, PricingHistory } from '../models/types';
+import {
+  RideRequest,
+  PricingHistory,
+  Location,
+  ZoneSurge,
+  VehicleClass,
+  Tariff,
+  RoutePlan,
+  PoolPricingMode,
+  CostShareBreakdown,
+  CancellationFee,
+  CancellationReason,
+  PriceLine,
+  TaxLineConfig,
+  Promotion,
+} from '../models/types';
 import { calculateDistance } from '../utils/distance';
+import { encodeGeohash, decodeGeohash } from '../utils/geohash';
+import { toMinorUnits } from '../utils/money';
 import { db } from '../database/db';
 import { redis } from '../database/redis';
+import { PoolClient } from 'pg';
 import { logger } from '../logger';
+import { InvalidQuoteError } from '../middleware/errorHandler';
+import { tariffService } from './tariffService';
+import { promotionService } from './promotionService';
 
 /**
  * DYNAMIC PRICING ENGINE
  * 
  * PRICING FORMULA:
- * Final Price = (Base Fare + (Distance × Per KM Rate)) × Surge Multiplier - Pool Discount
+ * Subtotal = max(Base Fare + Distance × Per KM Rate + Minutes × Per Minute Rate, Minimum Fare)
+ * Final Price = Subtotal × Surge Multiplier - Pool Discount + Airport Access Fee
+ *
+ * TARIFFS:
+ * - Rates come from the active tariff version for the ride's airport and
+ *   vehicle class (see TariffService); each price records the version used
+ * - The tariff also caps the surge multiplier and sets the base pool discount
+ * - The airport access fee is a pass-through: never surged or discounted
+ *
+ * CANCELLATION POLICY (config.cancellation):
+ * - Cancelled by the system: waived
+ * - Within the free window after booking, or before matching: free
+ * - Matched: CANCELLATION_MATCHED_FEE
+ * - Vehicle dispatched to the pool: CANCELLATION_DISPATCHED_FEE
+ * - Absent at pickup: NO_SHOW_FEE
+ *
+ * PROMOTIONS AND CREDITS:
+ * - Applied after the pool discount (and any fare quote cap), promo first
+ * - Shown as separate promo_discount and credits_applied lines
  * 
  * SURGE MULTIPLIER CALCULATION:
- * - Based on demand/supply ratio
- * - Time of day factor (peak hours)
- * - Real-time request volume
+ * - Computed per pickup zone (geohash cell of SURGE_ZONE_PRECISION), so
+ *   a rush at one airport does not raise prices at another
+ * - Demand/supply ratio: pending riders and forming pools against idle
+ *   vehicles near the zone
+ * - Peak factor inside configurable peak windows
+ * - Smoothed with an exponential moving average
  * - Formula: 1.0 + (demand_factor × 0.5) capped at MAX_SURGE
  * 
- * POOL DISCOUNT:
- * - Percentage discount for sharing rides
- * - Calculated as: Original Price × Pool Discount %
- * - More riders = more discount (up to 30%)
+
+ * POOL DISCOUNT (tariff pool_pricing_mode):
+ * - flat_discount: Original Price × Pool Discount %, more riders = more
+ *   discount (up to 30%)
+ * - cost_sharing: each member pays their share of the pool's route cost;
+ *   the pool discount is the gap to their solo price (see calculateCostShare)
  * 
  * Time Complexity: O(1) for calculation
  * Space Complexity: O(1)
  */
 
+interface ZoneDemand {
+  pending: number;
+  formingPools: number;
+  idleVehicles: number;
+}
+
+// A zone's moving average restarts from the raw factor after an idle hour
+const DEMAND_EMA_TTL_SECONDS = 3600;
+
+/**
+ * The pool route a member is priced on (cost_sharing mode)
+ */
+export interface PoolRouteContext {
+  // Every member on the route, including the ride being priced
+  requests: RideRequest[];
+  plan: RoutePlan;
+}
+
+/**
+ * Optional inputs to calculatePrice
+ */
+export interface PriceOptions {
+  // Surge applied instead of the pickup zone's current one, e.g. the
+  // surge a pool member joined at
+  surgeMultiplier?: number;
+  // Promotion applied instead of the one redeemed on the ride (previews)
+  promotion?: Promotion;
+  // Leave the cached demand factor and its moving average untouched
+  readOnly?: boolean;
+}
+
+/**
+ * A computed price. Money fields are integer minor units of `currency`;
+ * `lines` itemize the price and always sum to final_price.
+ */
 export interface PriceBreakdown {
+  currency: string;
   base_fare: number;
   distance_fare: number;
+  time_fare: number;
   subtotal: number;
   surge_multiplier: number;
   surge_amount: number;
   pool_discount: number;
+  airport_fee: number;
+  tax_total: number;
+  quote_adjustment: number;
+  promo_discount: number;
+  credits_applied: number;
   final_price: number;
+  lines: PriceLine[];
   demand_factor: number;
   distance_km: number;
+  pricing_zone: string;
+  tariff_id: string | null;
+  tariff_version: number;
+  promo_code: string | null;
+  pricing_mode: PoolPricingMode;
+  cost_share: CostShareBreakdown | null;
 }
 
 export class PricingService {
   /**
    * Calculate price for a ride request
-   * Time: O(1), Space: O(1)
+   * Rates come from the tariff active for the ride's airport and vehicle class.
+   * Pooled rides under a cost_sharing tariff are priced on `route`; without
+   * a route they fall back to the flat pool discount.
+   * Rides booked with a fare quote are never charged more than the quoted
+   * price; any reduction is reported as quote_adjustment. A quote in
+   * another currency than the tariff's throws InvalidQuoteError.
+   * options.surgeMultiplier replaces the zone's current surge and
+   * options.promotion the ride's redeemed promo; with options.readOnly a
+   * price can be computed without writing anything (previews).
+   * Every line is rounded to minor units on its own and final_price is
+   * their sum (see utils/money)
+   * Time: O(t) where t = current tariffs, Space: O(1)
    */
   public async calculatePrice(
     request: RideRequest,
     isPooled: boolean = false,
-    poolSize: number = 1
+    poolSize: number = 1,
+    vehicleClass: VehicleClass = config.defaultVehicleClass,
+    route?: PoolRouteContext,
+    options: PriceOptions = {}
   ): Promise<PriceBreakdown> {
-    // Calculate distance
+    // Calculate distance and estimated duration
     const distance = calculateDistance(
       request.pickup_latitude,
       request.pickup_longitude,
       request.dropoff_latitude,
       request.dropoff_longitude
     );
+    const durationMinutes = (distance / config.ridePooling.averageSpeedKmh) * 60;
 
-    // Get current demand factor
-    const demandFactor = await this.getDemandFactor();
+    const tariff = await tariffService.resolveTariff(request, vehicleClass);
+    const currency = tariff.currency;
+    const minor = (amount: number) => toMinorUnits(amount, currency);
 
-    // Base calculations
-    const baseFare = config.ridePooling.baseFare;
-    const distanceFare = distance * config.ridePooling.perKmRate;
-    const subtotal = baseFare + distanceFare;
+    // Get current demand factor for the pickup zone
+    const pricingZone = this.getPricingZone(request.pickup_latitude, request.pickup_longitude);
+    const demandFactor = await this.getDemandFactor(pricingZone, !options.readOnly);
+
+    // Base calculations, raised to the tariff's minimum fare
+    const baseFare = minor(tariff.base_fare);
+    const distanceFare = minor(distance * tariff.per_km_rate);
+    const timeFare = minor(durationMinutes * tariff.per_minute_rate);
+    const subtotal = Math.max(baseFare + distanceFare + timeFare, minor(tariff.minimum_fare));
 
     // Calculate surge multiplier
-    const surgeMultiplier = this.calculateSurgeMultiplier(demandFactor);
-    const surgeAmount = subtotal * (surgeMultiplier - 1);
+    const surgeMultiplier =
+      options.surgeMultiplier !== undefined
+        ? options.surgeMultiplier
+        : this.calculateSurgeMultiplier(demandFactor, tariff.max_surge_multiplier);
+    const surgeAmount = Math.round(subtotal * (surgeMultiplier - 1));
+    const fare = subtotal + surgeAmount;
 
-    // Calculate pool discount
+    // Calculate pool discount: the gap to the member's route cost share,
+    // or a flat percentage
+    const pricingMode: PoolPricingMode =
+      isPooled && route && tariff.pool_pricing_mode === 'cost_sharing'
+        ? 'cost_sharing'
+        : 'flat_discount';
     let poolDiscount = 0;
-    if (isPooled) {
-      const discountPercent = this.calculatePoolDiscount(poolSize);
-      poolDiscount = (subtotal + surgeAmount) * (discountPercent / 100);
+    let costShare: CostShareBreakdown | null = null;
+    if (pricingMode === 'cost_sharing') {
+      costShare = this.calculateCostShare(request, route, tariff, surgeMultiplier, subtotal);
+      poolDiscount = fare - costShare.shared_cost;
+    } else if (isPooled) {
+      const discountPercent = this.calculatePoolDiscount(poolSize, tariff.pool_discount_percent);
+      poolDiscount = Math.round(fare * (discountPercent / 100));
     }
+    poolDiscount = Math.min(Math.max(poolDiscount, 0), fare);
 
-    // Final price
-    const finalPrice = Math.max(0, subtotal + surgeAmount - poolDiscount);
+    // Airport access fee (pass-through) and taxes on the discounted fare
+    const airportFee = minor(tariff.airport_access_fee);
+    const taxes = (tariff.tax_lines || config.pricing.taxLines).map((tax) => ({
+      ...tax,
+      amount:
+        tax.type === 'percent'
+          ? Math.round((fare - poolDiscount) * (tax.rate / 100))
+          : minor(tax.rate),
+    }));
+    const taxTotal = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+
+    // Capped at the honored quote
+    let total = fare - poolDiscount + airportFee + taxTotal;
+    let quoteAdjustment = 0;
+    if (request.quoted_price !== undefined && request.quoted_price !== null) {
+      const quoteCurrency = request.quote_currency || config.pricing.currency;
+      if (quoteCurrency !== currency) {
+        throw new InvalidQuoteError('Fare quote currency does not match the ride\'s tariff', {
+          quote_id: request.quote_id,
+          reason: 'currency_mismatch',
+          quote_currency: quoteCurrency,
+          currency,
+        });
+      }
+      const quotedPrice = Number(request.quoted_price);
+      if (total > quotedPrice) {
+        quoteAdjustment = total - quotedPrice;
+        total = quotedPrice;
+      }
+    }
+
+    // Promo code, then rider credits, on what remains
+    const adjustments = await promotionService.getPricingAdjustments(request, currency);
+    if (options.promotion) {
+      adjustments.promotion = options.promotion;
+    }
+    const promoDiscount = adjustments.promotion
+      ? promotionService.calculateDiscount(adjustments.promotion, total, currency, isPooled)
+      : 0;
+    const creditsApplied = Math.max(
+      0,
+      Math.min(adjustments.availableCredits, total - promoDiscount)
+    );
+
+    const lines: PriceLine[] = [
+      { type: 'fare', code: 'base_fare', label: 'Base fare', amount: baseFare },
+      { type: 'fare', code: 'distance_fare', label: 'Distance', amount: distanceFare },
+      { type: 'fare', code: 'time_fare', label: 'Time', amount: timeFare },
+      {
+        type: 'fare',
+        code: 'minimum_fare',
+        label: 'Minimum fare adjustment',
+        amount: subtotal - (baseFare + distanceFare + timeFare),
+      },
+      { type: 'surge', code: 'surge', label: `Surge x${surgeMultiplier}`, amount: surgeAmount },
+      { type: 'discount', code: 'pool_discount', label: 'Pool discount', amount: -poolDiscount },
+      { type: 'fee', code: 'airport_fee', label: 'Airport access fee', amount: airportFee },
+      ...taxes.map((tax) => ({
+        type: 'tax' as const,
+        code: tax.code,
+        label: this.taxLabel(tax),
+        amount: tax.amount,
+      })),
+      {
+        type: 'discount',
+        code: 'quote_adjustment',
+        label: 'Quoted price cap',
+        amount: -quoteAdjustment,
+      },
+      {
+        type: 'discount',
+        code: 'promo_discount',
+        label: adjustments.promotion ? `Promo ${adjustments.promotion.code}` : 'Promo',
+        amount: -promoDiscount,
+      },
+      { type: 'credit', code: 'credits_applied', label: 'Credits', amount: -creditsApplied },
+    ];
+    const pricedLines = lines.filter((line) => line.amount !== 0 || line.code === 'base_fare');
 
     const breakdown: PriceBreakdown = {
+      currency,
       base_fare: baseFare,
       distance_fare: distanceFare,
+      time_fare: timeFare,
       subtotal,
       surge_multiplier: surgeMultiplier,
       surge_amount: surgeAmount,
       pool_discount: poolDiscount,
-      final_price: parseFloat(finalPrice.toFixed(2)),
+      airport_fee: airportFee,
+      tax_total: taxTotal,
+      quote_adjustment: quoteAdjustment,
+      promo_discount: promoDiscount,
+      credits_applied: creditsApplied,
+      final_price: pricedLines.reduce((sum, line) => sum + line.amount, 0),
+      lines: pricedLines,
       demand_factor: demandFactor,
       distance_km: parseFloat(distance.toFixed(2)),
+      pricing_zone: pricingZone,
+      tariff_id: tariff.id,
+      tariff_version: tariff.version,
+      promo_code: adjustments.promotion ? adjustments.promotion.code : null,
+      pricing_mode: pricingMode,
+      cost_share: costShare,
     };
 
     // Log pricing calculation
     logger.debug('Price calculated', {
       requestId: request.id,
+      tariff: `${tariff.code}@${tariff.version}`,
       breakdown,
     });
 
     return breakdown;
   }
 
+  /**
+   * Receipt label of a tax line, e.g. "Sales tax (8.875%)"
+   * Time: O(1), Space: O(1)
+   */
+  private taxLabel(tax: TaxLineConfig): string {
+    const name = tax.code.replace(/_/g, ' ');
+    const label = name.charAt(0).toUpperCase() + name.slice(1);
+    return tax.type === 'percent' ? `${label} (${tax.rate}%)` : label;
+  }
+
   /**
    * Calculate surge multiplier based on demand
-   * Formula: 1.0 + (demand_factor × 0.5)
+   * Formula: 1.0 + (demand_factor × 0.5), capped by the tariff
    * Time: O(1), Space: O(1)
    */
-  private calculateSurgeMultiplier(demandFactor: number): number {
+  private calculateSurgeMultiplier(demandFactor: number, maxMultiplier: number): number {
     const baseMultiplier = 1.0;
     const surgeImpact = 0.5; // How much demand affects surge
     const calculatedSurge = baseMultiplier + demandFactor * surgeImpact;
     
     // Cap at maximum surge
-    return Math.min(calculatedSurge, config.ridePooling.surgeMultiplierMax);
+    return Math.min(calculatedSurge, maxMultiplier);
+  }
+
+  /**
+   * One member's share of the pool's route cost
+   * - Each leg's km are split among the riders on board by passenger count,
+   *   so km ridden together are shared and km ridden alone are paid alone
+   * - The base fare is split by passenger count across the pool
+   * - DETOUR_COMPENSATION_PERCENT of the member's detour km is refunded
+   * - Never more than the solo price (subtotal × surge)
+   * `soloSubtotal` and the returned money fields are minor units
+   * Time: O(k) where k = stops, Space: O(n) where n = members
+   */
+  private calculateCostShare(
+    request: RideRequest,
+    route: PoolRouteContext,
+    tariff: Tariff,
+    surgeMultiplier: number,
+    soloSubtotal: number
+  ): CostShareBreakdown {
+    const weights = new Map(route.requests.map((r) => [r.id, r.passenger_count]));
+    const totalWeight = route.requests.reduce((sum, r) => sum + r.passenger_count, 0);
+    const weight = weights.get(request.id) || request.passenger_count;
+
+    const stops = [...route.plan.stops].sort((a, b) => a.sequence - b.sequence);
+    const onBoard = new Set<string>();
+    let shareKm = 0;
+    let rideKm = 0;
+    let sharedKm = 0;
+
+    stops.forEach((stop, i) => {
+      if (i > 0 && onBoard.has(request.id)) {
+        const legKm = stop.cumulative_distance_km - stops[i - 1].cumulative_distance_km;
+        let load = 0;
+        for (const id of onBoard) {
+          load += weights.get(id) || 0;
+        }
+
+        shareKm += legKm * (weight / Math.max(load, weight));
+        rideKm += legKm;
+        if (onBoard.size > 1) {
+          sharedKm += legKm;
+        }
+      }
+
+      if (stop.stop_type === 'pickup') {
+        onBoard.add(stop.ride_request_id);
+      } else {
+        onBoard.delete(stop.ride_request_id);
+      }
+    });
+
+    const baseShare = tariff.base_fare * (weight / Math.max(totalWeight, weight));
+    const distanceShare = shareKm * tariff.per_km_rate;
+    const timeShare = (shareKm / config.ridePooling.averageSpeedKmh) * 60 * tariff.per_minute_rate;
+    const routeCost = (baseShare + distanceShare + timeShare) * surgeMultiplier;
+
+    const detourKm = route.plan.detours.get(request.id) || 0;
+    const detourCompensation = Math.min(
+      detourKm *
+        tariff.per_km_rate *
+        (config.ridePooling.detourCompensationPercent / 100) *
+        surgeMultiplier,
+      routeCost
+    );
+
+    const minor = (amount: number) => toMinorUnits(amount, tariff.currency);
+    const soloCost = Math.round(soloSubtotal * surgeMultiplier);
+    const sharedCost = minor(routeCost - detourCompensation);
+    const round = (value: number) => parseFloat(value.toFixed(2));
+
+    return {
+      route_km: round(route.plan.total_distance_km),
+      ride_km: round(rideKm),
+      shared_km: round(sharedKm),
+      share_km: round(shareKm),
+      base_share: minor(baseShare),
+      distance_share: minor(distanceShare),
+      time_share: minor(timeShare),
+      detour_km: round(detourKm),
+      detour_compensation: minor(detourCompensation),
+      shared_cost: Math.min(sharedCost, soloCost),
+      solo_cost: soloCost,
+      capped_at_solo: sharedCost > soloCost,
+    };
+  }
+
+  /**
+   * Fee for ending a ride, by the policy rule that applies
+   * `ride` is the ride as it was before cancellation; `dispatched` is true
+   * once a vehicle is assigned to the ride's pool. Configured fees are major
+   * units; the fee is returned in minor units of `currency`
+   * Time: O(1), Space: O(1)
+   */
+  public calculateCancellationFee(
+    ride: RideRequest,
+    reason: CancellationReason,
+    dispatched: boolean,
+    currency: string = config.pricing.currency,
+    now: Date = new Date()
+  ): CancellationFee {
+    const policy = config.cancellation;
+
+    if (reason === 'no_show') {
+      return {
+        charge_type: 'no_show_fee',
+        amount: toMinorUnits(policy.noShowFee, currency),
+        currency,
+        waived: false,
+        rule: 'no_show',
+      };
+    }
+
+    const free = (rule: CancellationFee['rule']): CancellationFee => ({
+      charge_type: 'cancellation_fee',
+      amount: 0,
+      currency,
+      waived: true,
+      rule,
+    });
+
+    if (reason === 'system') {
+      return free('system');
+    }
+
+    const minutesSinceBooking = (now.getTime() - new Date(ride.requested_at).getTime()) / 60000;
+    if (minutesSinceBooking <= policy.freeWindowMinutes) {
+      return free('free_window');
+    }
+    if (ride.status === 'pending') {
+      return free('not_matched');
+    }
+
+    return dispatched
+      ? {
+          charge_type: 'cancellation_fee',
+          amount: toMinorUnits(policy.dispatchedFee, currency),
+          currency,
+          waived: false,
+          rule: 'after_dispatch',
+        }
+      : {
+          charge_type: 'cancellation_fee',
+          amount: toMinorUnits(policy.matchedFee, currency),
+          currency,
+          waived: false,
+          rule: 'after_match',
+        };
   }
 
   /**
@@ -118,32 +494,42 @@ export class PricingService {
    * More riders = more discount
    * Time: O(1), Space: O(1)
    */
-  private calculatePoolDiscount(poolSize: number): number {
-    const baseDiscount = config.ridePooling.poolDiscountPercent;
-    
-    // Increase discount for larger pools
-    // 2 riders: 20%, 3 riders: 25%, 4 riders: 30%
+  private calculatePoolDiscount(poolSize: number, baseDiscount: number): number {
+    // Increase the tariff's discount by 5% per extra rider, up to 30%
     const bonusDiscount = (poolSize - 1) * 5;
-    return Math.min(baseDiscount + bonusDiscount, 30);
+    return Math.max(baseDiscount, Math.min(baseDiscount + bonusDiscount, 30));
+  }
+
+  /**
+   * Pricing zone of a pickup point
+   * Zones are geohash cells; they are capped at the matching precision so a
+   * zone is always a prefix of the stored pickup_geohash
+   * Time: O(p) where p = precision, Space: O(p)
+   */
+  public getPricingZone(lat: number, lon: number): string {
+    return encodeGeohash(Number(lat), Number(lon), this.getZonePrecision());
+  }
+
+  private getZonePrecision(): number {
+    return Math.min(config.surge.zonePrecision, config.matching.geohashPrecision);
   }
 
   /**
-   * Get current demand factor from Redis cache
+   * Get current demand factor for a zone from Redis cache
    * Demand factor ranges from 0.0 (no demand) to 2.0 (very high demand)
+   * On a cache miss the factor is recomputed; it is cached only if `persist`
    * Time: O(1), Space: O(1)
    */
-  private async getDemandFactor(): Promise<number> {
+  private async getDemandFactor(zone: string, persist: boolean = true): Promise<number> {
     try {
-      const cached = await redis.get('demand:factor');
+      const cached = await redis.get(`demand:factor:${zone}`);
       if (cached) {
         return parseFloat(cached);
       }
 
-      // Calculate demand factor based on recent requests
-      const demandFactor = await this.calculateDemandFactor();
-      await redis.set('demand:factor', demandFactor.toString(), 60); // Cache for 60 seconds
-      
-      return demandFactor;
+      // Recompute from the zone's current demand and supply
+      const demand = await this.loadZoneDemand([zone]);
+      return await this.refreshDemandFactor(zone, demand.get(zone), persist);
     } catch (error) {
       logger.error('Error getting demand factor:', error);
       return 1.0; // Default to normal demand
@@ -151,83 +537,321 @@ export class PricingService {
   }
 
   /**
-   * Calculate real-time demand factor
-   * Based on: number of pending requests, time of day, historical patterns
-   * Time: O(1) with database query, Space: O(1)
+   * Demand and supply per zone
+   * Demand: pending requests from the last 5 minutes plus forming pools
+   * (each still needs a vehicle), by pickup zone. Supply: idle vehicles
+   * within SURGE_SUPPLY_RADIUS_KM of the zone center.
+   * With `zones`, only those zones are loaded; otherwise every zone with
+   * pending riders, forming pools or idle vehicles.
+   * Time: O(r + p + z * v) where r = pending requests, p = forming pool
+   * members, z = zones, v = idle vehicles. Space: O(z + v)
    */
-  private async calculateDemandFactor(): Promise<number> {
-    try {
-      // Count pending requests in last 5 minutes
-      const result = await db.query<{ count: string }>(
-        `SELECT COUNT(*) as count 
-         FROM ride_requests 
-         WHERE status = 'pending' 
-         AND requested_at > NOW() - INTERVAL '5 minutes'`
+  private async loadZoneDemand(zones?: string[]): Promise<Map<string, ZoneDemand>> {
+    const precision = this.getZonePrecision();
+    const zoneFilter = zones || null;
+
+    const pendingResult = await db.query<{ zone: string; count: string }>(
+      `SELECT LEFT(pickup_geohash, $1) as zone, COUNT(*) as count
+       FROM ride_requests
+       WHERE status = 'pending'
+       AND requested_at > NOW() - INTERVAL '5 minutes'
+       AND pickup_geohash IS NOT NULL
+       AND ($2::text[] IS NULL OR LEFT(pickup_geohash, $1) = ANY($2))
+       GROUP BY 1`,
+      [precision, zoneFilter]
+    );
+
+    const formingResult = await db.query<{ zone: string; count: string }>(
+      `SELECT LEFT(rr.pickup_geohash, $1) as zone, COUNT(DISTINCT rp.id) as count
+       FROM ride_pools rp
+       JOIN pool_members pm ON pm.pool_id = rp.id
+       JOIN ride_requests rr ON rr.id = pm.ride_request_id
+       WHERE rp.status = 'forming'
+       AND rr.pickup_geohash IS NOT NULL
+       AND ($2::text[] IS NULL OR LEFT(rr.pickup_geohash, $1) = ANY($2))
+       GROUP BY 1`,
+      [precision, zoneFilter]
+    );
+
+    const vehicleResult = await db.query<{ current_latitude: number; current_longitude: number }>(
+      `SELECT current_latitude, current_longitude
+       FROM vehicles
+       WHERE status = 'available'
+       AND current_latitude IS NOT NULL AND current_longitude IS NOT NULL`
+    );
+
+    const demand = new Map<string, ZoneDemand>();
+    const entry = (zone: string): ZoneDemand => {
+      if (!demand.has(zone)) {
+        demand.set(zone, { pending: 0, formingPools: 0, idleVehicles: 0 });
+      }
+      return demand.get(zone);
+    };
+
+    for (const zone of zones || []) {
+      entry(zone);
+    }
+    for (const row of pendingResult.rows) {
+      entry(row.zone).pending = parseInt(row.count, 10);
+    }
+    for (const row of formingResult.rows) {
+      entry(row.zone).formingPools = parseInt(row.count, 10);
+    }
+    if (!zones) {
+      for (const vehicle of vehicleResult.rows) {
+        entry(this.getPricingZone(vehicle.current_latitude, vehicle.current_longitude));
+      }
+    }
+
+    for (const [zone, zoneDemand] of demand) {
+      const center = decodeGeohash(zone);
+      zoneDemand.idleVehicles = vehicleResult.rows.filter(
+        (v) =>
+          calculateDistance(
+            center.lat,
+            center.lon,
+            Number(v.current_latitude),
+            Number(v.current_longitude)
+          ) <= config.surge.supplyRadiusKm
+      ).length;
+    }
+
+    return demand;
+  }
+
+  /**
+   * Recompute a zone's demand factor and update its moving average
+   * Raw factor = (pending riders + forming pools) / idle vehicles, scaled
+   * by SURGE_PEAK_FACTOR inside a peak window and capped at 2.0; the cached
+   * factor is EMA = α × raw + (1 - α) × previous EMA. Runs at most once per
+   * cache TTL per zone, so the average advances at a steady rate; without
+   * `persist` the factor is returned but neither key is written.
+   * Time: O(w) where w = peak windows, Space: O(1)
+   */
+  private async refreshDemandFactor(
+    zone: string,
+    demand: ZoneDemand,
+    persist: boolean = true
+  ): Promise<number> {
+    const ratio = this.demandSupplyRatio(demand);
+    const peak = this.isPeakTime(new Date());
+    const rawFactor = Math.min(ratio * (peak ? config.surge.peakFactor : 1), 2.0);
+
+    const alpha = config.surge.emaAlpha;
+    const previous = await redis.get(`demand:ema:${zone}`);
+    const smoothed =
+      previous !== null ? alpha * rawFactor + (1 - alpha) * parseFloat(previous) : rawFactor;
+    const demandFactor = parseFloat(smoothed.toFixed(4));
+
+    if (persist) {
+      await redis.set(`demand:ema:${zone}`, demandFactor.toString(), DEMAND_EMA_TTL_SECONDS);
+      await redis.set(
+        `demand:factor:${zone}`,
+        demandFactor.toString(),
+        config.surge.cacheTtlSeconds
       );
+    }
+
+    logger.debug('Demand factor calculated', {
+      zone,
+      ...demand,
+      ratio,
+      peak,
+      rawFactor,
+      demandFactor,
+    });
+
+    return demandFactor;
+  }
+
+  /**
+   * Riders waiting per idle vehicle; no supply counts as one vehicle
+   * Time: O(1), Space: O(1)
+   */
+  private demandSupplyRatio(demand: ZoneDemand): number {
+    return (demand.pending + demand.formingPools) / Math.max(demand.idleVehicles, 1);
+  }
+
+  /**
+   * Whether a moment falls in a configured peak window (SURGE_TIMEZONE or
+   * server local time); windows whose end precedes their start wrap past
+   * midnight
+   * Time: O(w) where w = peak windows, Space: O(1)
+   */
+  private isPeakTime(now: Date): boolean {
+    let minutes = now.getHours() * 60 + now.getMinutes();
+
+    if (config.surge.timeZone) {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: config.surge.timeZone,
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+      }).formatToParts(now);
+      const hour = Number(parts.find((p) => p.type === 'hour')?.value || 0);
+      const minute = Number(parts.find((p) => p.type === 'minute')?.value || 0);
+      minutes = hour * 60 + minute;
+    }
 
-      const pendingCount = parseInt(result.rows[0]?.count || '0', 10);
+    return config.surge.peakWindows.some((w) =>
+      w.start <= w.end
+        ? minutes >= w.start && minutes < w.end
+        : minutes >= w.start || minutes < w.end
+    );
+  }
+
+  /**
+   * Current demand, supply and surge for every active zone
+   * A zone is active if it has recent pending requests, forming pools,
+   * idle vehicles or a known location (so airports are always listed).
+   * Zones whose cached factor expired are recomputed.
+   * Time: O(r + p + z * v + l) where l = locations (see loadZoneDemand)
+   * Space: O(z + v)
+   */
+  public async getZoneSurges(): Promise<ZoneSurge[]> {
+    const locationResult = await db.query<Location>(
+      'SELECT id, name, latitude, longitude FROM locations ORDER BY name'
+    );
+
+    const labels = new Map<string, string[]>();
+    const zoneLocations = new Map<string, string>();
+    for (const location of locationResult.rows) {
+      const zone = this.getPricingZone(location.latitude, location.longitude);
+      labels.set(zone, [...(labels.get(zone) || []), location.name]);
+      if (!zoneLocations.has(zone)) {
+        zoneLocations.set(zone, location.id);
+      }
+    }
 
-      // Time of day factor (peak hours: 7-9 AM, 5-8 PM)
-      const hour = new Date().getHours();
-      let timeOfDayFactor = 1.0;
-      if ((hour >= 7 && hour <= 9) || (hour >= 17 && hour <= 20)) {
-        timeOfDayFactor = 1.5;
+    const demand = await this.loadZoneDemand();
+    const missing = Array.from(labels.keys()).filter((zone) => !demand.has(zone));
+    if (missing.length > 0) {
+      for (const [zone, zoneDemand] of await this.loadZoneDemand(missing)) {
+        demand.set(zone, zoneDemand);
       }
+    }
 
-      // Request volume factor
-      // 0-10 requests: 0.5, 11-30: 1.0, 31-50: 1.5, 50+: 2.0
-      let volumeFactor = 0.5;
-      if (pendingCount > 50) volumeFactor = 2.0;
-      else if (pendingCount > 30) volumeFactor = 1.5;
-      else if (pendingCount > 10) volumeFactor = 1.0;
-
-      // Combined demand factor
-      const demandFactor = (volumeFactor + timeOfDayFactor) / 2;
-
-      logger.debug('Demand factor calculated', {
-        pendingCount,
-        hour,
-        timeOfDayFactor,
-        volumeFactor,
-        demandFactor,
+    const surges: ZoneSurge[] = [];
+    for (const [zone, zoneDemand] of demand) {
+      const cached = await redis.get(`demand:factor:${zone}`);
+      const demandFactor = cached
+        ? parseFloat(cached)
+        : await this.refreshDemandFactor(zone, zoneDemand);
+      // Surge cap of the tariff that prices pickups at the zone's location
+      const tariff = await tariffService.resolveTariff({
+        pickup_location_id: zoneLocations.get(zone),
       });
 
-      return Math.min(demandFactor, 2.0);
-    } catch (error) {
-      logger.error('Error calculating demand factor:', error);
-      return 1.0;
+      surges.push({
+        zone,
+        label: labels.has(zone) ? labels.get(zone).join(', ') : null,
+        demand_factor: demandFactor,
+        surge_multiplier: this.calculateSurgeMultiplier(
+          demandFactor,
+          tariff.max_surge_multiplier
+        ),
+        pending_requests: zoneDemand.pending,
+        forming_pools: zoneDemand.formingPools,
+        available_vehicles: zoneDemand.idleVehicles,
+        demand_supply_ratio: parseFloat(this.demandSupplyRatio(zoneDemand).toFixed(2)),
+      });
     }
+
+    return surges.sort((a, b) => b.surge_multiplier - a.surge_multiplier);
   }
 
   /**
-   * Save pricing history to database
+   * Save pricing history to database, along with the promo discount and
+   * credits the ride was priced with
+   * Pass a transaction client to record the row atomically with the change
    * Time: O(1), Space: O(1)
    */
   public async savePricingHistory(
     rideRequestId: string,
-    breakdown: PriceBreakdown
+    breakdown: PriceBreakdown,
+    client?: PoolClient
   ): Promise<void> {
+    if (client) {
+      await this.insertPricingHistory(client, rideRequestId, breakdown);
+      await promotionService.recordRideAdjustmentsInternal(
+        client,
+        rideRequestId,
+        this.toAdjustments(breakdown)
+      );
+      return;
+    }
+
     try {
-      await db.query(
-        `INSERT INTO pricing_history 
-         (ride_request_id, base_fare, distance_fare, surge_multiplier, 
-          pool_discount, final_price, demand_factor)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-        [
-          rideRequestId,
-          breakdown.base_fare,
-          breakdown.distance_fare,
-          breakdown.surge_multiplier,
-          breakdown.pool_discount,
-          breakdown.final_price,
-          breakdown.demand_factor,
-        ]
+      await this.insertPricingHistory(db, rideRequestId, breakdown);
+      await promotionService.recordRideAdjustmentsInternal(
+        db,
+        rideRequestId,
+        this.toAdjustments(breakdown)
       );
     } catch (error) {
       logger.error('Error saving pricing history:', error);
     }
   }
 
+  /**
+   * Insert a pricing_history row through the pool or a transaction client
+   * Time: O(1), Space: O(1)
+   */
+  private async insertPricingHistory(
+    executor: { query: (text: string, params?: any[]) => Promise<any> },
+    rideRequestId: string,
+    breakdown: PriceBreakdown
+  ): Promise<void> {
+    await executor.query(
+      `INSERT INTO pricing_history 
+       (ride_request_id, currency, base_fare, distance_fare, time_fare, subtotal,
+        surge_multiplier, surge_amount, pool_discount, airport_fee, tax_total, quote_adjustment,
+        promo_discount, credits_applied, final_price, lines, demand_factor, tariff_id,
+        tariff_version, pricing_mode, cost_share)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18,
+               $19, $20, $21)`,
+      [
+        rideRequestId,
+        breakdown.currency,
+        breakdown.base_fare,
+        breakdown.distance_fare,
+        breakdown.time_fare,
+        breakdown.subtotal,
+        breakdown.surge_multiplier,
+        breakdown.surge_amount,
+        breakdown.pool_discount,
+        breakdown.airport_fee,
+        breakdown.tax_total,
+        breakdown.quote_adjustment,
+        breakdown.promo_discount,
+        breakdown.credits_applied,
+        breakdown.final_price,
+        JSON.stringify(breakdown.lines),
+        breakdown.demand_factor,
+        breakdown.tariff_id,
+        breakdown.tariff_version,
+        breakdown.pricing_mode,
+        breakdown.cost_share ? JSON.stringify(breakdown.cost_share) : null,
+      ]
+    );
+  }
+
+  /**
+   * Promo discount and credits a ride was priced with, for PromotionService
+   * Time: O(1), Space: O(1)
+   */
+  private toAdjustments(breakdown: PriceBreakdown): {
+    promo_discount: number;
+    credits_applied: number;
+    currency: string;
+  } {
+    return {
+      promo_discount: breakdown.promo_discount,
+      credits_applied: breakdown.credits_applied,
+      currency: breakdown.currency,
+    };
+  }
+
   /**
    * Get pricing history for a ride request
    * Time: O(1), Space: O(1)
@@ -251,19 +875,31 @@ export class PricingService {
 
   /**
    * Update demand metrics
-   * Called periodically to update demand tracking
-   * Time: O(1), Space: O(1)
+   * Called periodically to update demand tracking per zone
+   * Time: O(r + v + l + z), Space: O(z) (see getZoneSurges)
    */
   public async updateDemandMetrics(): Promise<void> {
     try {
-      const demandFactor = await this.calculateDemandFactor();
-      await redis.set('demand:factor', demandFactor.toString(), 60);
-      
-      // Store in metrics table for analytics
-      await db.query(
-        `INSERT INTO metrics (metric_type, value) VALUES ('demand_factor', $1)`,
-        [demandFactor]
-      );
+      const surges = await this.getZoneSurges();
+
+      // Store one row per zone in metrics table for analytics
+      for (const surge of surges) {
+        await db.query(
+          `INSERT INTO metrics (metric_type, value, metadata) VALUES ('demand_factor', $1, $2)`,
+          [
+            surge.demand_factor,
+            JSON.stringify({
+              zone: surge.zone,
+              label: surge.label,
+              surge_multiplier: surge.surge_multiplier,
+              pending_requests: surge.pending_requests,
+              forming_pools: surge.forming_pools,
+              available_vehicles: surge.available_vehicles,
+              demand_supply_ratio: surge.demand_supply_ratio,
+            }),
+          ]
+        );
+      }
     } catch (error) {
       logger.error('Error updating demand metrics:', error);
     }
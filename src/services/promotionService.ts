@@ -0,0 +1,539 @@
+import { db } from '../database/db';
+import { logger } from '../logger';
+import {
+  Promotion,
+  CreatePromotionDTO,
+  PromoRedemption,
+  RideRequest,
+  RiderCredits,
+  CreditTransaction,
+} from '../models/types';
+import { config } from '../config';
+import { ConflictError, InvalidPromoError, NotFoundError } from '../middleware/errorHandler';
+import { tariffService } from './tariffService';
+
+/**
+ * PROMOTIONS AND RIDER CREDITS
+ *
+ * Money amounts are integer minor units in the promotion's or rider's
+ * currency (see utils/money).
+ *
+ * PROMO CODES:
+ * - percent (optionally capped by max_discount) or fixed amount off
+ * - Only valid on rides priced in the promotion's currency
+ * - Global (max_redemptions) and per-rider (max_redemptions_per_user) limits
+ * - Validity window and an optional "first pooled ride" restriction
+ * - Redeemed against a ride while it is pending; the redemption is keyed by
+ *   the ride, so repeating a redemption returns the existing one
+ *
+ * CREDITS:
+ * - A spendable balance per rider in one currency, topped up by grants;
+ *   rides priced in another currency cannot use it
+ * - Each ride holds at most one credit transaction; it is resized whenever
+ *   the ride is re-priced and released if the ride is cancelled
+ *
+ * PricingService applies the promo and then credits after the pool discount.
+ */
+
+interface PricingAdjustments {
+  promotion: Promotion | null;
+  availableCredits: number;
+}
+
+const PROMO_NUMERIC_COLUMNS: Array<keyof Promotion> = ['discount_value'];
+
+export class PromotionService {
+  /**
+   * List promotions, newest first
+   * Time: O(p) where p = promotions, Space: O(p)
+   */
+  public async listPromotions(): Promise<Promotion[]> {
+    const result = await db.query<Promotion>('SELECT * FROM promotions ORDER BY created_at DESC');
+    return result.rows.map((row) => this.toPromotion(row));
+  }
+
+  /**
+   * Get a promotion by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getPromotion(id: string): Promise<Promotion | null> {
+    const result = await db.query<Promotion>('SELECT * FROM promotions WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.toPromotion(result.rows[0]) : null;
+  }
+
+  /**
+   * Create a promotion; codes are case-insensitive and stored uppercase
+   * Time: O(1), Space: O(1)
+   */
+  public async createPromotion(data: CreatePromotionDTO): Promise<Promotion> {
+    try {
+      const result = await db.query<Promotion>(
+        `INSERT INTO promotions
+         (code, description, discount_type, discount_value, max_discount, currency,
+          max_redemptions, max_redemptions_per_user, first_pooled_ride_only, valid_from,
+          valid_until)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10, CURRENT_TIMESTAMP), $11)
+         RETURNING *`,
+        [
+          data.code.toUpperCase(),
+          data.description || null,
+          data.discount_type,
+          data.discount_value,
+          data.max_discount || null,
+          data.currency || config.pricing.currency,
+          data.max_redemptions || null,
+          data.max_redemptions_per_user || 1,
+          data.first_pooled_ride_only || false,
+          data.valid_from || null,
+          data.valid_until || null,
+        ]
+      );
+
+      const promotion = this.toPromotion(result.rows[0]);
+      logger.info('Promotion created', { promotionId: promotion.id, code: promotion.code });
+      return promotion;
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError('Promotion code already exists', { code: data.code });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Redeem a promo code against a pending ride
+   * Idempotent per ride: the same code returns the existing redemption
+   * Time: O(r) where r = the rider's redemptions of the promotion, Space: O(1)
+   */
+  public async redeemPromo(rideRequestId: string, code: string): Promise<PromoRedemption> {
+    return await db.transaction(async (client) => {
+      const rideResult = await client.query(
+        'SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE',
+        [rideRequestId]
+      );
+      if (rideResult.rows.length === 0) {
+        throw new NotFoundError('Ride request not found');
+      }
+
+      return await this.redeemPromoInternal(client, code, rideResult.rows[0]);
+    });
+  }
+
+  /**
+   * Validate a promo code and record its redemption for a ride (within
+   * transaction). The promotion row is locked so limits hold under
+   * concurrent redemptions.
+   * Throws InvalidPromoError if the code is unknown, inactive, outside its
+   * validity window, used up, in another currency than the ride's tariff,
+   * or the rider is not eligible.
+   * Time: O(r), Space: O(1)
+   */
+  public async redeemPromoInternal(
+    client: any,
+    code: string,
+    ride: RideRequest
+  ): Promise<PromoRedemption> {
+    const normalized = code.toUpperCase();
+
+    const existing = await client.query(
+      `SELECT pr.*, p.code FROM promo_redemptions pr
+       JOIN promotions p ON p.id = pr.promotion_id
+       WHERE pr.ride_request_id = $1`,
+      [ride.id]
+    );
+    if (existing.rows.length > 0) {
+      const { code: redeemedCode, ...redemption } = existing.rows[0];
+      if (redeemedCode !== normalized) {
+        throw new ConflictError('Ride already has a promo code applied', {
+          ride_request_id: ride.id,
+          code: redeemedCode,
+        });
+      }
+      return redemption as PromoRedemption;
+    }
+
+    if (ride.status !== 'pending') {
+      throw new ConflictError('Promo codes can only be applied before the ride is matched', {
+        ride_request_id: ride.id,
+        status: ride.status,
+      });
+    }
+
+    const promotion = await this.validatePromoInternal(client, code, ride, true);
+
+    const result = await client.query(
+      `INSERT INTO promo_redemptions (promotion_id, user_id, ride_request_id, currency)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [promotion.id, ride.user_id, ride.id, promotion.currency]
+    );
+    await client.query(
+      'UPDATE promotions SET redemption_count = redemption_count + 1 WHERE id = $1',
+      [promotion.id]
+    );
+
+    logger.info('Promo code redeemed', {
+      code: promotion.code,
+      rideRequestId: ride.id,
+      userId: ride.user_id,
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Check a promo code for a ride without redeeming it (ride previews)
+   * Throws InvalidPromoError like redeemPromoInternal
+   * Time: O(r), Space: O(1)
+   */
+  public async checkPromo(code: string, ride: RideRequest): Promise<Promotion> {
+    return await this.validatePromoInternal(db, code, ride, false);
+  }
+
+  /**
+   * Load a promotion and check that the ride's rider may use it now; with
+   * `lock` the promotion row is locked until the transaction ends
+   * Time: O(r), Space: O(1)
+   */
+  private async validatePromoInternal(
+    executor: { query: (text: string, params?: any[]) => Promise<any> },
+    code: string,
+    ride: RideRequest,
+    lock: boolean
+  ): Promise<Promotion> {
+    const promoResult = await executor.query(
+      `SELECT *,
+              valid_from > CURRENT_TIMESTAMP AS not_started,
+              valid_until IS NOT NULL AND valid_until <= CURRENT_TIMESTAMP AS expired
+       FROM promotions WHERE code = $1 ${lock ? 'FOR UPDATE' : ''}`,
+      [code.toUpperCase()]
+    );
+    if (promoResult.rows.length === 0) {
+      throw new InvalidPromoError('Promo code not found', { code, reason: 'not_found' });
+    }
+
+    const { not_started, expired, ...row } = promoResult.rows[0];
+    const promotion = this.toPromotion(row);
+
+    if (!promotion.active) {
+      throw new InvalidPromoError('Promo code is no longer active', { code, reason: 'inactive' });
+    }
+    if (not_started) {
+      throw new InvalidPromoError('Promo code is not valid yet', {
+        code,
+        reason: 'not_started',
+        valid_from: promotion.valid_from,
+      });
+    }
+    if (expired) {
+      throw new InvalidPromoError('Promo code has expired', {
+        code,
+        reason: 'expired',
+        valid_until: promotion.valid_until,
+      });
+    }
+    const { currency } = await tariffService.resolveTariff(ride);
+    if (promotion.currency !== currency) {
+      throw new InvalidPromoError('Promo code is not valid in this currency', {
+        code,
+        reason: 'currency_mismatch',
+        currency: promotion.currency,
+        ride_currency: currency,
+      });
+    }
+
+    if (promotion.max_redemptions && promotion.redemption_count >= promotion.max_redemptions) {
+      throw new InvalidPromoError('Promo code has reached its usage limit', {
+        code,
+        reason: 'exhausted',
+      });
+    }
+
+    const userResult = await executor.query(
+      `SELECT COUNT(*) as count FROM promo_redemptions
+       WHERE promotion_id = $1 AND user_id = $2 AND status = 'applied'`,
+      [promotion.id, ride.user_id]
+    );
+    if (parseInt(userResult.rows[0].count, 10) >= promotion.max_redemptions_per_user) {
+      throw new InvalidPromoError('Promo code usage limit reached for this rider', {
+        code,
+        reason: 'user_limit',
+        max_redemptions_per_user: promotion.max_redemptions_per_user,
+      });
+    }
+
+    if (promotion.first_pooled_ride_only && (await this.hasPooledRide(executor, ride))) {
+      throw new InvalidPromoError('Promo code is only valid on a first pooled ride', {
+        code,
+        reason: 'not_first_pooled_ride',
+      });
+    }
+
+    return promotion;
+  }
+
+  /**
+   * Whether the rider already shared a pool on another ride
+   * Time: O(r) where r = the rider's rides, Space: O(1)
+   */
+  private async hasPooledRide(client: any, ride: RideRequest): Promise<boolean> {
+    const result = await client.query(
+      `SELECT 1 FROM ride_requests rr
+       JOIN pool_members pm ON pm.ride_request_id = rr.id
+       WHERE rr.user_id = $1 AND rr.id <> $2
+       AND rr.status IN ('matched', 'confirmed', 'completed')
+       AND EXISTS (
+         SELECT 1 FROM pool_members other
+         WHERE other.pool_id = pm.pool_id AND other.ride_request_id <> rr.id
+       )
+       LIMIT 1`,
+      [ride.user_id, ride.id]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Promotion redeemed on a ride and credits it may use: the rider's
+   * balance plus what the ride already holds, if the balance is in the
+   * ride's currency
+   * Rides that are not persisted yet (quotes) have no adjustments
+   * Time: O(1), Space: O(1)
+   */
+  public async getPricingAdjustments(
+    request: RideRequest,
+    currency: string
+  ): Promise<PricingAdjustments> {
+    if (!request.id || !request.user_id) {
+      return { promotion: null, availableCredits: 0 };
+    }
+
+    const promoResult = await db.query(
+      `SELECT p.* FROM promo_redemptions pr
+       JOIN promotions p ON p.id = pr.promotion_id
+       WHERE pr.ride_request_id = $1 AND pr.status = 'applied'`,
+      [request.id]
+    );
+
+    const creditResult = await db.query<{ available: number }>(
+      `SELECT COALESCE(
+                (SELECT balance FROM rider_credits WHERE user_id = $1 AND currency = $3)
+                - COALESCE((SELECT amount FROM credit_transactions WHERE ride_request_id = $2), 0),
+                0) AS available`,
+      [request.user_id, request.id, currency]
+    );
+
+    return {
+      promotion: promoResult.rows.length > 0 ? this.toPromotion(promoResult.rows[0]) : null,
+      availableCredits: Math.max(0, creditResult.rows[0].available),
+    };
+  }
+
+  /**
+   * Discount a promotion gives on a fare, both in minor units of `currency`
+   * First-pooled-ride promotions give nothing while the ride is solo, and
+   * promotions in another currency give nothing
+   * Time: O(1), Space: O(1)
+   */
+  public calculateDiscount(
+    promotion: Promotion,
+    fare: number,
+    currency: string,
+    isPooled: boolean
+  ): number {
+    if (promotion.first_pooled_ride_only && !isPooled) {
+      return 0;
+    }
+    if (promotion.currency !== currency) {
+      return 0;
+    }
+
+    let discount =
+      promotion.discount_type === 'percent'
+        ? Math.round(fare * (promotion.discount_value / 100))
+        : promotion.discount_value;
+
+    if (promotion.max_discount) {
+      discount = Math.min(discount, promotion.max_discount);
+    }
+
+    return Math.min(discount, fare);
+  }
+
+  /**
+   * Record the promo discount and credits a ride was priced with, in minor
+   * units of the price's currency
+   * The ride's credit hold is resized and the balance moves by the
+   * difference, so re-pricing never spends credits twice
+   * Time: O(1), Space: O(1)
+   */
+  public async recordRideAdjustmentsInternal(
+    executor: { query: (text: string, params?: any[]) => Promise<any> },
+    rideRequestId: string,
+    adjustments: { promo_discount: number; credits_applied: number; currency: string }
+  ): Promise<void> {
+    await executor.query(
+      `UPDATE promo_redemptions SET discount_amount = $2
+       WHERE ride_request_id = $1 AND status = 'applied'`,
+      [rideRequestId, adjustments.promo_discount]
+    );
+
+    const holdResult = await executor.query(
+      'SELECT amount FROM credit_transactions WHERE ride_request_id = $1 FOR UPDATE',
+      [rideRequestId]
+    );
+    const held = holdResult.rows.length > 0 ? -holdResult.rows[0].amount : 0;
+    const delta = adjustments.credits_applied - held;
+
+    if (delta === 0) {
+      return;
+    }
+
+    await executor.query(
+      `UPDATE rider_credits SET balance = balance - $2
+       WHERE user_id = (SELECT user_id FROM ride_requests WHERE id = $1)`,
+      [rideRequestId, delta]
+    );
+    await executor.query(
+      `INSERT INTO credit_transactions (user_id, ride_request_id, amount, currency, reason)
+       SELECT user_id, id, $2, $3, 'Applied to ride' FROM ride_requests WHERE id = $1
+       ON CONFLICT (ride_request_id) DO UPDATE SET amount = EXCLUDED.amount`,
+      [rideRequestId, -adjustments.credits_applied, adjustments.currency]
+    );
+  }
+
+  /**
+   * Reverse a cancelled ride's promo redemption and return its credits
+   * (within transaction)
+   * Time: O(1), Space: O(1)
+   */
+  public async releaseRideInternal(client: any, rideRequestId: string): Promise<void> {
+    const redemption = await client.query(
+      `UPDATE promo_redemptions SET status = 'reversed'
+       WHERE ride_request_id = $1 AND status = 'applied'
+       RETURNING promotion_id`,
+      [rideRequestId]
+    );
+    if (redemption.rows.length > 0) {
+      await client.query(
+        'UPDATE promotions SET redemption_count = redemption_count - 1 WHERE id = $1',
+        [redemption.rows[0].promotion_id]
+      );
+    }
+
+    const hold = await client.query(
+      'SELECT user_id, amount FROM credit_transactions WHERE ride_request_id = $1 FOR UPDATE',
+      [rideRequestId]
+    );
+    const held = hold.rows.length > 0 ? -hold.rows[0].amount : 0;
+    if (held > 0) {
+      await client.query(
+        'UPDATE rider_credits SET balance = balance + $2 WHERE user_id = $1',
+        [hold.rows[0].user_id, held]
+      );
+      await client.query(
+        `UPDATE credit_transactions SET amount = 0, reason = 'Released: ride cancelled'
+         WHERE ride_request_id = $1`,
+        [rideRequestId]
+      );
+    }
+
+    if (redemption.rows.length > 0 || held > 0) {
+      logger.info('Ride promotions released', { rideRequestId, creditsReturned: held });
+    }
+  }
+
+  /**
+   * Rider's credit balance and recent transactions
+   * Time: O(t) where t = transactions returned, Space: O(t)
+   */
+  public async getCredits(userId: string): Promise<RiderCredits> {
+    const balanceResult = await db.query<{ balance: number; currency: string }>(
+      'SELECT balance, currency FROM rider_credits WHERE user_id = $1',
+      [userId]
+    );
+    const transactionResult = await db.query<CreditTransaction>(
+      `SELECT * FROM credit_transactions WHERE user_id = $1
+       ORDER BY created_at DESC LIMIT 50`,
+      [userId]
+    );
+
+    return {
+      user_id: userId,
+      balance: balanceResult.rows[0]?.balance || 0,
+      currency: balanceResult.rows[0]?.currency || config.pricing.currency,
+      transactions: transactionResult.rows,
+    };
+  }
+
+  /**
+   * Add credits (minor units of `currency`) to a rider's balance
+   * Time: O(1), Space: O(1)
+   */
+  public async grantCredits(
+    userId: string,
+    amount: number,
+    currency: string = config.pricing.currency,
+    reason?: string
+  ): Promise<RiderCredits> {
+    await db.transaction(async (client) => {
+      await this.grantCreditsInternal(client, userId, amount, currency, reason);
+    });
+
+    return this.getCredits(userId);
+  }
+
+  /**
+   * Add credits (minor units of `currency`) to a rider's balance (within
+   * transaction)
+   * Throws ConflictError if the rider's balance is in another currency
+   * Time: O(1), Space: O(1)
+   */
+  public async grantCreditsInternal(
+    client: any,
+    userId: string,
+    amount: number,
+    currency: string,
+    reason?: string
+  ): Promise<void> {
+    const user = await client.query('SELECT id FROM users WHERE id = $1', [userId]);
+    if (user.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
+
+    const credited = await client.query(
+      `INSERT INTO rider_credits (user_id, balance, currency) VALUES ($1, $2, $3)
+       ON CONFLICT (user_id) DO UPDATE SET balance = rider_credits.balance + EXCLUDED.balance
+       WHERE rider_credits.currency = EXCLUDED.currency`,
+      [userId, amount, currency]
+    );
+    if (credited.rowCount === 0) {
+      throw new ConflictError('Rider credits are held in another currency', {
+        user_id: userId,
+        currency,
+      });
+    }
+    await client.query(
+      `INSERT INTO credit_transactions (user_id, amount, currency, reason)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, amount, currency, reason || 'Credit grant']
+    );
+
+    logger.info('Rider credits granted', { userId, amount, currency });
+  }
+
+  /**
+   * Convert DECIMAL columns (returned as strings by pg) to numbers
+   * Time: O(1), Space: O(1)
+   */
+  private toPromotion(row: any): Promotion {
+    const promotion = { ...row };
+    for (const column of PROMO_NUMERIC_COLUMNS) {
+      if (row[column] !== null && row[column] !== undefined) {
+        promotion[column] = Number(row[column]);
+      }
+    }
+    return promotion;
+  }
+}
+
+export const promotionService = new PromotionService();
@@ -0,0 +1,229 @@
+import { db } from '../database/db';
+import { logger } from '../logger';
+import { FareQuote, CreateFareQuoteDTO, CreateRideRequestDTO, RideRequest } from '../models/types';
+import { config } from '../config';
+import { InvalidQuoteError } from '../middleware/errorHandler';
+import { pricingService, PriceBreakdown } from './pricingService';
+import { tariffService } from './tariffService';
+
+/**
+ * FARE QUOTE SERVICE
+ *
+ * Issues price quotes that are locked for config.ridePooling.quoteTtlSeconds.
+ * A ride booked with a quote stores the quoted price, and PricingService
+ * never charges that ride more than it, whatever surge applies later.
+ * Each quote can be redeemed by exactly one ride.
+ */
+
+// Coordinates may be re-serialized by clients; compare to ~1m
+const COORDINATE_TOLERANCE = 0.00001;
+
+export class QuoteService {
+  /**
+   * Price a trip and lock the solo price as a quote
+   * The trip is priced as the ride it would book, so the tariff for its
+   * airport applies
+   * Time: O(1), Space: O(1)
+   */
+  public async createQuote(
+    data: CreateFareQuoteDTO
+  ): Promise<{ quote: FareQuote; pricing: PriceBreakdown }> {
+    const now = new Date();
+    const request: RideRequest = {
+      // Not a ride yet: priced before any promo code or credits
+      id: null,
+      user_id: data.user_id,
+      pickup_location_id: data.pickup_location_id,
+      dropoff_location_id: data.dropoff_location_id,
+      pickup_latitude: data.pickup_latitude,
+      pickup_longitude: data.pickup_longitude,
+      dropoff_latitude: data.dropoff_latitude,
+      dropoff_longitude: data.dropoff_longitude,
+      passenger_count: data.passenger_count,
+      luggage_count: data.luggage_count,
+      max_detour_km: config.ridePooling.maxDetourToleranceKm,
+      status: 'pending',
+      requested_at: now,
+      created_at: now,
+      updated_at: now,
+    };
+    const pricing = await pricingService.calculatePrice(request, false, 1);
+
+    const result = await db.query<FareQuote>(
+      `INSERT INTO fare_quotes
+       (user_id, pickup_location_id, dropoff_location_id,
+        pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude,
+        passenger_count, luggage_count, quoted_price, currency, surge_multiplier, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12,
+               CURRENT_TIMESTAMP + ($13 || ' seconds')::interval)
+       RETURNING *`,
+      [
+        data.user_id,
+        data.pickup_location_id,
+        data.dropoff_location_id,
+        data.pickup_latitude,
+        data.pickup_longitude,
+        data.dropoff_latitude,
+        data.dropoff_longitude,
+        data.passenger_count,
+        data.luggage_count,
+        pricing.final_price,
+        pricing.currency,
+        pricing.surge_multiplier,
+        String(config.ridePooling.quoteTtlSeconds),
+      ]
+    );
+
+    const quote = result.rows[0];
+    logger.info('Fare quote issued', {
+      quoteId: quote.id,
+      userId: data.user_id,
+      quotedPrice: quote.quoted_price,
+    });
+
+    return { quote, pricing };
+  }
+
+  /**
+   * Get a quote by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getQuote(id: string): Promise<FareQuote | null> {
+    const result = await db.query<FareQuote>('SELECT * FROM fare_quotes WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Validate a quote against a ride being created and mark it used
+   * (within transaction). The row lock makes a quote redeemable once.
+   * Throws InvalidQuoteError if the quote is unknown, used, expired,
+   * was issued for a different rider, trip (locations or coordinates) or
+   * party size, or is in another currency than the ride's tariff.
+   * Time: O(1), Space: O(1)
+   */
+  public async redeemQuoteInternal(
+    client: any,
+    quoteId: string,
+    data: CreateRideRequestDTO
+  ): Promise<FareQuote> {
+    const quote = await this.validateQuoteInternal(client, quoteId, data, true);
+
+    await client.query(`UPDATE fare_quotes SET status = 'used' WHERE id = $1`, [quoteId]);
+
+    return quote;
+  }
+
+  /**
+   * Validate a quote for a ride without redeeming it (ride previews)
+   * Throws InvalidQuoteError like redeemQuoteInternal
+   * Time: O(1), Space: O(1)
+   */
+  public async checkQuote(quoteId: string, data: CreateRideRequestDTO): Promise<FareQuote> {
+    return await this.validateQuoteInternal(db, quoteId, data, false);
+  }
+
+  /**
+   * Load a quote and check it is unused, unexpired and issued for this
+   * ride; with `lock` the quote row is locked until the transaction ends
+   * Time: O(1), Space: O(1)
+   */
+  private async validateQuoteInternal(
+    executor: { query: (text: string, params?: any[]) => Promise<any> },
+    quoteId: string,
+    data: CreateRideRequestDTO,
+    lock: boolean
+  ): Promise<FareQuote> {
+    const result = await executor.query(
+      `SELECT *, expires_at <= CURRENT_TIMESTAMP AS expired
+       FROM fare_quotes WHERE id = $1 ${lock ? 'FOR UPDATE' : ''}`,
+      [quoteId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new InvalidQuoteError('Fare quote not found', {
+        quote_id: quoteId,
+        reason: 'not_found',
+      });
+    }
+
+    const { expired, ...quote } = result.rows[0];
+
+    if (quote.status === 'used') {
+      throw new InvalidQuoteError('Fare quote has already been used', {
+        quote_id: quoteId,
+        reason: 'used',
+      });
+    }
+
+    if (expired) {
+      throw new InvalidQuoteError('Fare quote has expired; request a new quote', {
+        quote_id: quoteId,
+        reason: 'expired',
+        expires_at: quote.expires_at,
+      });
+    }
+
+    const mismatched = this.findMismatchedFields(quote, data);
+    if (mismatched.length > 0) {
+      throw new InvalidQuoteError('Fare quote does not match this ride request', {
+        quote_id: quoteId,
+        reason: 'mismatch',
+        fields: mismatched,
+      });
+    }
+
+    const { currency } = await tariffService.resolveTariff(data);
+    if (quote.currency !== currency) {
+      throw new InvalidQuoteError('Fare quote currency does not match the ride\'s tariff', {
+        quote_id: quoteId,
+        reason: 'currency_mismatch',
+        quote_currency: quote.currency,
+        currency,
+      });
+    }
+
+    return quote as FareQuote;
+  }
+
+  /**
+   * Fields of the ride that differ from what was quoted
+   * Time: O(1), Space: O(1)
+   */
+  private findMismatchedFields(quote: FareQuote, data: CreateRideRequestDTO): string[] {
+    const mismatched: string[] = [];
+
+    const ids: Array<keyof CreateFareQuoteDTO & keyof FareQuote> = [
+      'user_id',
+      'pickup_location_id',
+      'dropoff_location_id',
+    ];
+    for (const field of ids) {
+      if (quote[field] !== data[field]) {
+        mismatched.push(field);
+      }
+    }
+
+    const coordinates: Array<keyof CreateFareQuoteDTO & keyof FareQuote> = [
+      'pickup_latitude',
+      'pickup_longitude',
+      'dropoff_latitude',
+      'dropoff_longitude',
+    ];
+    for (const field of coordinates) {
+      if (Math.abs(Number(quote[field]) - Number(data[field])) > COORDINATE_TOLERANCE) {
+        mismatched.push(field);
+      }
+    }
+
+    if (quote.passenger_count !== data.passenger_count) {
+      mismatched.push('passenger_count');
+    }
+    if (quote.luggage_count !== data.luggage_count) {
+      mismatched.push('luggage_count');
+    }
+
+    return mismatched;
+  }
+}
+
+export const quoteService = new QuoteService();
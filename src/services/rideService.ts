@@ -7,10 +7,29 @@ import {
   PoolMember,
   CreateRideRequestDTO,
   RideStatus,
+  MatchResult,
+  MatchExplanation,
+  MatchScore,
+  PoolStatus,
+  VehicleClass,
+  CancellationReason,
+  Charge,
 } from '../models/types';
 import { matchingEngine, PoolCandidate } from './matchingEngine';
-import { pricingService } from './pricingService';
+import { pricingService, PriceBreakdown } from './pricingService';
 import { poolService } from './poolService';
+import { matchingQueue } from './matchingQueue';
+import { quoteService } from './quoteService';
+import { promotionService } from './promotionService';
+import { chargeService } from './chargeService';
+import { ledgerService } from './ledgerService';
+import { matchScorer } from './matchScoring';
+import { routePlanner } from './routePlanner';
+import { vehicleService } from './vehicleService';
+import { assertRideTransition } from '../models/statusTransitions';
+import { NotFoundError, ConflictError, PoolUnavailableError } from '../middleware/errorHandler';
+import { config } from '../config';
+import { encodeGeohash, geohashesWithinRadius } from '../utils/geohash';
 
 /**
  * RIDE SERVICE
@@ -20,21 +39,65 @@ import { poolService } from './poolService';
  * Implements optimistic locking for concurrent updates
  */
 
+export interface RidePreview {
+  outcome: 'join_pool' | 'new_pool';
+  pool: {
+    id: string;
+    pool_code: string;
+    status: PoolStatus;
+    vehicle_class: VehicleClass;
+    member_count: number;
+  } | null;
+  estimated_departure: Date | null;
+  departs_in_minutes: number | null;
+  pickup_position: number | null;
+  route_stop_count: number | null;
+  expected_detour_km: number;
+  price: PriceBreakdown;
+  solo_price: PriceBreakdown;
+  // Minor units of price.currency
+  savings: number;
+  score: MatchScore | null;
+}
+
+export interface RideCancellation {
+  ride: RideRequest;
+  charge: Charge;
+}
+
+// Placeholder id for the unsaved request in a preview; never stored
+const PREVIEW_REQUEST_ID = '00000000-0000-0000-0000-000000000000';
+
 export class RideService {
   /**
    * Create a new ride request
-   * Time: O(1) for database insert + O(m * k²) for matching
-   * Space: O(1)
+   * The matching job is enqueued in the same transaction as the insert
+   * A quote_id, if given, is validated and redeemed in that transaction
+   * Party size not given is taken from the rider's profile
+   * Time: O(1), Space: O(1)
    */
-  public async createRideRequest(data: CreateRideRequestDTO): Promise<RideRequest> {
+  public async createRideRequest(input: CreateRideRequestDTO): Promise<RideRequest> {
+    const precision = config.matching.geohashPrecision;
+
     return await db.transaction(async (client) => {
+      const data = await this.applyRiderProfile(client, input, true);
+
+      // Redeem the fare quote; its price caps every later charge
+      const quote = data.quote_id
+        ? await quoteService.redeemQuoteInternal(client, data.quote_id, data)
+        : null;
+
       // Insert ride request
       const result = await client.query<RideRequest>(
         `INSERT INTO ride_requests 
          (user_id, pickup_location_id, dropoff_location_id, 
           pickup_latitude, pickup_longitude, dropoff_latitude, dropoff_longitude,
-          passenger_count, luggage_count, max_detour_km, status)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending')
+          pickup_geohash, dropoff_geohash,
+          passenger_count, luggage_count, max_detour_km,
+          flight_number, earliest_pickup_at, latest_arrival_at,
+          quote_id, quoted_price, quote_currency, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+                 $16, $17, $18, 'pending')
          RETURNING *`,
         [
           data.user_id,
@@ -44,14 +107,27 @@ export class RideService {
           data.pickup_longitude,
           data.dropoff_latitude,
           data.dropoff_longitude,
+          encodeGeohash(data.pickup_latitude, data.pickup_longitude, precision),
+          encodeGeohash(data.dropoff_latitude, data.dropoff_longitude, precision),
           data.passenger_count,
           data.luggage_count,
           data.max_detour_km || 5.0,
+          data.flight_number ? data.flight_number.toUpperCase() : null,
+          data.earliest_pickup_at || null,
+          data.latest_arrival_at || null,
+          quote ? quote.id : null,
+          quote ? quote.quoted_price : null,
+          quote ? quote.currency : null,
         ]
       );
 
       const rideRequest = result.rows[0];
 
+      // Redeem the promo code; it is applied whenever the ride is priced
+      if (data.promo_code) {
+        await promotionService.redeemPromoInternal(client, data.promo_code, rideRequest);
+      }
+
       logger.info('Ride request created', {
         rideRequestId: rideRequest.id,
         userId: data.user_id,
@@ -60,49 +136,181 @@ export class RideService {
       // Invalidate cache
       await redis.del(`ride:${rideRequest.id}`);
 
-      // Trigger async matching
-      this.triggerMatching(rideRequest.id).catch((error) => {
-        logger.error('Error triggering matching:', error);
-      });
+      // Enqueue matching; commits atomically with the ride
+      await matchingQueue.enqueueInternal(client, rideRequest.id);
 
       return rideRequest;
     });
   }
 
   /**
-   * Trigger matching process for a ride request
-   * Uses eventual consistency - matching happens asynchronously
+   * Preview matching and pricing for a ride that has not been booked
+   * Runs the same candidate query and matcher as the worker, then prices
+   * the ride exactly as joining the best pool would, capped at the fare
+   * quote and with the promo code and credits it would get. The quote and
+   * promo code are checked but not redeemed. Nothing is written.
+   * Time: O(m * k²) where m = candidate pools, k = stops per pool
+   * Space: O(m)
+   */
+  public async previewRideRequest(input: CreateRideRequestDTO): Promise<RidePreview> {
+    const data = await this.applyRiderProfile(db, input);
+    const quote = data.quote_id ? await quoteService.checkQuote(data.quote_id, data) : null;
+    const now = new Date();
+    const request: RideRequest = {
+      id: PREVIEW_REQUEST_ID,
+      user_id: data.user_id,
+      pickup_location_id: data.pickup_location_id,
+      dropoff_location_id: data.dropoff_location_id,
+      pickup_latitude: data.pickup_latitude,
+      pickup_longitude: data.pickup_longitude,
+      dropoff_latitude: data.dropoff_latitude,
+      dropoff_longitude: data.dropoff_longitude,
+      passenger_count: data.passenger_count,
+      luggage_count: data.luggage_count,
+      max_detour_km: data.max_detour_km || 5.0,
+      flight_number: data.flight_number ? data.flight_number.toUpperCase() : undefined,
+      earliest_pickup_at: data.earliest_pickup_at ? new Date(data.earliest_pickup_at) : undefined,
+      latest_arrival_at: data.latest_arrival_at ? new Date(data.latest_arrival_at) : undefined,
+      quote_id: quote ? quote.id : undefined,
+      quoted_price: quote ? quote.quoted_price : undefined,
+      quote_currency: quote ? quote.currency : undefined,
+      status: 'pending',
+      requested_at: now,
+      created_at: now,
+      updated_at: now,
+    };
+
+    const priceOptions = {
+      readOnly: true,
+      promotion: data.promo_code
+        ? await promotionService.checkPromo(data.promo_code, request)
+        : undefined,
+    };
+
+    const soloPrice = await pricingService.calculatePrice(
+      request,
+      false,
+      1,
+      undefined,
+      undefined,
+      priceOptions
+    );
+    const availablePools = await this.getAvailablePools(request);
+    const best = await matchingEngine.findBestMatch(request, availablePools);
+
+    const routeRequests = best ? [...best.existingRequests, request] : [];
+    const plan = best
+      ? routePlanner.planRoute(routeRequests, routePlanner.routeStart(routeRequests))
+      : null;
+    if (!best || !plan) {
+      return {
+        outcome: 'new_pool',
+        pool: null,
+        estimated_departure: null,
+        departs_in_minutes: null,
+        pickup_position: null,
+        route_stop_count: null,
+        expected_detour_km: 0,
+        price: soloPrice,
+        solo_price: soloPrice,
+        savings: 0,
+        score: null,
+      };
+    }
+
+    // Priced as addMemberToPool would: pooled, pool size after the join
+    const poolSize = best.existingMembers.length + 1;
+    const price = await pricingService.calculatePrice(
+      request,
+      true,
+      poolSize,
+      best.pool.vehicle_class,
+      { requests: routeRequests, plan },
+      priceOptions
+    );
+
+    const { departure } = routePlanner.computeSchedule(routeRequests, plan, now);
+    const pickupStop = plan.stops.find(
+      (s) => s.ride_request_id === request.id && s.stop_type === 'pickup'
+    );
+
+    return {
+      outcome: 'join_pool',
+      pool: {
+        id: best.pool.id,
+        pool_code: best.pool.pool_code,
+        status: best.pool.status,
+        vehicle_class: best.pool.vehicle_class,
+        member_count: best.existingMembers.length,
+      },
+      estimated_departure: departure,
+      departs_in_minutes: Math.max(0, Math.round((departure.getTime() - now.getTime()) / 60000)),
+      pickup_position: pickupStop ? pickupStop.sequence : null,
+      route_stop_count: plan.stops.length,
+      expected_detour_km: parseFloat((plan.detours.get(request.id) || 0).toFixed(2)),
+      price,
+      solo_price: soloPrice,
+      savings: soloPrice.final_price - price.final_price,
+      score: best.score || null,
+    };
+  }
+
+  /**
+   * Run matching for a ride request
+   * Called by the matching worker; errors propagate so the job is retried
    * Time: O(m * k²), Space: O(m)
    */
-  private async triggerMatching(rideRequestId: string): Promise<void> {
+  public async matchRideRequest(rideRequestId: string): Promise<void> {
     try {
-      // Get the ride request
+      // Read through to the database: the cached copy may be stale
+      await redis.del(`ride:${rideRequestId}`);
       const request = await this.getRideRequest(rideRequestId);
       if (!request || request.status !== 'pending') {
         return;
       }
 
-      // Get available pools with FOR UPDATE to prevent concurrent modifications
-      const availablePools = await this.getAvailablePools();
-
-      // Find best match
-      const bestMatch = await matchingEngine.findBestMatch(request, availablePools);
-
-      if (bestMatch) {
-        // Add to existing pool
-        await poolService.addMemberToPool(bestMatch.pool.id, rideRequestId);
-        logger.info('Ride matched to existing pool', {
-          rideRequestId,
-          poolId: bestMatch.pool.id,
-        });
-      } else {
-        // Create new pool
-        const newPool = await poolService.createPool([rideRequestId]);
-        logger.info('Created new pool for ride', {
-          rideRequestId,
-          poolId: newPool.id,
-        });
+      // Candidates are read without locks; addMemberToPool locks the pool
+      // row and re-checks status and capacity before inserting
+      const availablePools = await this.getAvailablePools(request);
+
+      // Rank candidates, best first
+      const rankedMatches = await matchingEngine.rankMatches(request, availablePools);
+
+      for (const candidate of rankedMatches) {
+        try {
+          await poolService.addMemberToPool(
+            candidate.pool.id,
+            rideRequestId,
+            candidate.score
+          );
+          logger.info('Ride matched to existing pool', {
+            rideRequestId,
+            poolId: candidate.pool.id,
+            score: candidate.score,
+          });
+          return;
+        } catch (error) {
+          if (!(error instanceof PoolUnavailableError)) {
+            throw error;
+          }
+          // Lost the race for this pool; try the next-best candidate
+          logger.debug('Pool unavailable, trying next candidate', {
+            rideRequestId,
+            poolId: candidate.pool.id,
+            reason: error.message,
+          });
+        }
       }
+
+      // Create new pool in a vehicle class the rider's party fits
+      const newPool = await poolService.createPool(
+        [rideRequestId],
+        vehicleService.selectVehicleClass(request.passenger_count, request.luggage_count)
+      );
+      logger.info('Created new pool for ride', {
+        rideRequestId,
+        poolId: newPool.id,
+      });
     } catch (error) {
       logger.error('Error in matching process:', error);
       throw error;
@@ -110,40 +318,127 @@ export class RideService {
   }
 
   /**
-   * Get available pools for matching
-   * Time: O(m) where m = number of pools, Space: O(m)
+   * Get candidate pools for matching
+   * Pre-filters open pools spatially: a pool qualifies if at least one
+   * member's pickup lies in a geohash cell within the detour tolerance of
+   * the request's pickup and that member's dropoff lies within twice the
+   * tolerance of the request's dropoff (the areLocationsCompatible rule).
+   * Pools, members and requests are loaded in one indexed query, members
+   * in join order (see RoutePlanner.routeStart); the
+   * candidatePoolLimit pools whose nearest member pickup is closest to the
+   * request's pickup are kept (equirectangular distance).
+   * With includeFull, pools without room for the request are kept so the
+   * capacity rejection can be reported. The request's own pool is skipped.
+   * Time: O(c + p * k) where c = covering cells, p = candidate pools,
+   * k = members per pool. Space: O(p * k)
    */
-  private async getAvailablePools(): Promise<PoolCandidate[]> {
-    const poolsResult = await db.query<RidePool>(
-      `SELECT * FROM ride_pools 
-       WHERE status IN ('forming', 'confirmed')
-       AND current_passenger_count < max_passengers
-       ORDER BY created_at ASC
-       LIMIT 50`
+  private async getAvailablePools(
+    request: RideRequest,
+    options: { includeFull?: boolean } = {}
+  ): Promise<PoolCandidate[]> {
+    const precision = config.matching.geohashPrecision;
+    const radiusKm = config.ridePooling.maxDetourToleranceKm;
+
+    const pickupCells = geohashesWithinRadius(
+      Number(request.pickup_latitude),
+      Number(request.pickup_longitude),
+      radiusKm,
+      precision
+    );
+    const dropoffCells = geohashesWithinRadius(
+      Number(request.dropoff_latitude),
+      Number(request.dropoff_longitude),
+      radiusKm * 2,
+      precision
     );
 
-    const candidates: PoolCandidate[] = [];
-
-    for (const pool of poolsResult.rows) {
-      const membersResult = await db.query<PoolMember>(
-        'SELECT * FROM pool_members WHERE pool_id = $1',
-        [pool.id]
-      );
+    const result = await db.query<{
+      pool: RidePool;
+      members: PoolMember[];
+      requests: RideRequest[];
+    }>(
+      `WITH nearby AS (
+         SELECT DISTINCT pm.pool_id
+         FROM ride_requests rr
+         JOIN pool_members pm ON pm.ride_request_id = rr.id
+         WHERE rr.pickup_geohash = ANY($1)
+         AND rr.dropoff_geohash = ANY($2)
+         AND rr.id <> $6
+       )
+       SELECT row_to_json(rp.*) AS pool,
+              json_agg(row_to_json(pm.*) ORDER BY pm.joined_at, rr.requested_at, rr.id)
+                AS members,
+              json_agg(row_to_json(rr.*) ORDER BY pm.joined_at, rr.requested_at, rr.id)
+                AS requests
+       FROM nearby n
+       JOIN ride_pools rp ON rp.id = n.pool_id
+       JOIN pool_members pm ON pm.pool_id = rp.id
+       JOIN ride_requests rr ON rr.id = pm.ride_request_id
+       WHERE rp.status IN ('forming', 'confirmed')
+       AND ($7 OR (rp.current_passenger_count + $3 <= rp.max_passengers
+                   AND rp.current_luggage_count + $4 <= rp.max_luggage))
+       AND NOT EXISTS (
+         SELECT 1 FROM pool_members own
+         WHERE own.pool_id = rp.id AND own.ride_request_id = $6
+       )
+       GROUP BY rp.id
+       ORDER BY MIN(POWER(rr.pickup_latitude - $8, 2)
+                    + POWER((rr.pickup_longitude - $9) * COS(RADIANS($8)), 2)) ASC,
+                rp.created_at ASC
+       LIMIT $5`,
+      [
+        pickupCells,
+        dropoffCells,
+        request.passenger_count,
+        request.luggage_count,
+        config.matching.candidatePoolLimit,
+        request.id,
+        options.includeFull === true,
+        Number(request.pickup_latitude),
+        Number(request.pickup_longitude),
+      ]
+    );
 
-      const requestIds = membersResult.rows.map((m) => m.ride_request_id);
-      const requestsResult = await db.query<RideRequest>(
-        `SELECT * FROM ride_requests WHERE id = ANY($1)`,
-        [requestIds]
-      );
+    return result.rows.map((row) => ({
+      pool: row.pool,
+      existingMembers: row.members,
+      existingRequests: row.requests,
+    }));
+  }
 
-      candidates.push({
-        pool,
-        existingMembers: membersResult.rows,
-        existingRequests: requestsResult.rows,
-      });
+  /**
+   * Explain how matching would treat a ride right now
+   * Re-runs candidate selection and every constraint check read-only:
+   * nothing is locked, joined or created. Rides already in a pool are
+   * evaluated against the other open pools.
+   * Time: O(m * k²) where m = candidate pools, k = stops per pool
+   * Space: O(m)
+   */
+  public async explainMatch(rideRequestId: string): Promise<MatchExplanation> {
+    const request = await this.getRideRequest(rideRequestId);
+    if (!request) {
+      throw new NotFoundError('Ride request not found');
     }
 
-    return candidates;
+    const memberResult = await db.query<{ pool_id: string }>(
+      'SELECT pool_id FROM pool_members WHERE ride_request_id = $1',
+      [rideRequestId]
+    );
+
+    const candidates = await this.getAvailablePools(request, { includeFull: true });
+    const { accepted, rejected } = await matchingEngine.explainMatches(request, candidates);
+
+    return {
+      ride_request_id: request.id,
+      ride_status: request.status,
+      current_pool_id: memberResult.rows[0]?.pool_id || null,
+      strategy: matchScorer.resolve(request).strategy.name,
+      outcome: accepted.length > 0 ? 'join_pool' : 'new_pool',
+      best_pool_id: accepted.length > 0 ? accepted[0].pool_id : null,
+      candidates_considered: candidates.length,
+      accepted,
+      rejected,
+    };
   }
 
   /**
@@ -181,94 +476,239 @@ export class RideService {
 
   /**
    * Cancel a ride request
-   * Handles concurrent cancellations with optimistic locking
-   * Time: O(1), Space: O(1)
+   * Finds the ride's pool first and detaches it in the same transaction;
+   * the pool is then re-routed and re-priced, or dissolved if only one
+   * rider would remain before departure. The rider's cancellation fee is
+   * assessed by the policy in PricingService; system cancellations only
+   * happen server-side (pool cancellation, account deletion).
+   * Time: O(n) where n = pool members, Space: O(n)
    */
-  public async cancelRideRequest(id: string): Promise<RideRequest> {
+  public async cancelRideRequest(id: string): Promise<RideCancellation> {
     return await db.transaction(async (client) => {
-      // Lock the row for update
-      const result = await client.query<RideRequest>(
-        `SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE`,
-        [id]
-      );
+      const rideRequest = await this.lockRideInternal(client, id);
 
-      if (result.rows.length === 0) {
-        throw new Error('Ride request not found');
-      }
+      assertRideTransition(rideRequest.status, 'cancelled');
 
-      const rideRequest = result.rows[0];
+      return await this.cancelRideInternal(client, rideRequest, 'rider');
+    });
+  }
 
-      if (rideRequest.status === 'cancelled') {
-        throw new Error('Ride request already cancelled');
-      }
+  /**
+   * Report a rider absent at pickup
+   * Only after a vehicle has been dispatched to the rider's pool; the ride
+   * is cancelled and charged the no-show fee
+   * Time: O(n) where n = pool members, Space: O(n)
+   */
+  public async reportNoShow(id: string): Promise<RideCancellation> {
+    return await db.transaction(async (client) => {
+      const rideRequest = await this.lockRideInternal(client, id);
 
-      if (rideRequest.status === 'completed') {
-        throw new Error('Cannot cancel completed ride');
-      }
+      assertRideTransition(rideRequest.status, 'cancelled');
 
-      // Update status
-      const updateResult = await client.query<RideRequest>(
-        `UPDATE ride_requests 
-         SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
-         WHERE id = $1
-         RETURNING *`,
+      const poolResult = await client.query(
+        `SELECT rp.id, rp.vehicle_id FROM pool_members pm
+         JOIN ride_pools rp ON rp.id = pm.pool_id
+         WHERE pm.ride_request_id = $1`,
         [id]
       );
+      if (!poolResult.rows[0]?.vehicle_id) {
+        throw new ConflictError('A no-show can only be reported once a vehicle is dispatched', {
+          ride_request_id: id,
+          status: rideRequest.status,
+        });
+      }
 
-      const updatedRequest = updateResult.rows[0];
+      return await this.cancelRideInternal(client, rideRequest, 'no_show');
+    });
+  }
 
-      // Remove from pool if matched
-      if (rideRequest.status === 'matched') {
-        await client.query(
-          `DELETE FROM pool_members WHERE ride_request_id = $1`,
-          [id]
-        );
+  /**
+   * Cancel a rider's active rides (within transaction), as the system so
+   * no fee is charged. Throws ConflictError, cancelling nothing, while one
+   * of them is on board a pool in progress
+   * Time: O(r · n) where r = active rides, n = pool members, Space: O(r)
+   */
+  public async cancelUserRidesInternal(
+    client: any,
+    userId: string
+  ): Promise<RideCancellation[]> {
+    const result = await client.query(
+      `SELECT * FROM ride_requests
+       WHERE user_id = $1 AND status IN ('pending', 'matched', 'confirmed')
+       ORDER BY id
+       FOR UPDATE`,
+      [userId]
+    );
+    const rides: RideRequest[] = result.rows;
+    if (rides.length === 0) {
+      return [];
+    }
 
-        // Update pool counts
-        const poolResult = await client.query<{ pool_id: string }>(
-          `SELECT pool_id FROM pool_members WHERE ride_request_id = $1`,
-          [id]
-        );
+    const inProgress = await client.query(
+      `SELECT pm.ride_request_id FROM pool_members pm
+       JOIN ride_pools rp ON rp.id = pm.pool_id
+       WHERE pm.ride_request_id = ANY($1) AND rp.status = 'in_progress'`,
+      [rides.map((ride) => ride.id)]
+    );
+    if (inProgress.rows.length > 0) {
+      throw new ConflictError('User has a ride in progress', {
+        ride_request_ids: inProgress.rows.map((row: any) => row.ride_request_id),
+      });
+    }
 
-        if (poolResult.rows.length > 0) {
-          const poolId = poolResult.rows[0].pool_id;
-          await poolService.recalculatePoolCapacity(poolId);
-        }
-      }
+    const cancellations: RideCancellation[] = [];
+    for (const ride of rides) {
+      cancellations.push(await this.cancelRideInternal(client, ride, 'system'));
+    }
+    return cancellations;
+  }
 
-      // Invalidate cache
-      await redis.del(`ride:${id}`);
+  /**
+   * Fill a request's party size from the rider's profile
+   * Throws NotFoundError for an unknown or deleted rider. With lock, the
+   * rider row is share-locked so the account cannot be deleted before the
+   * ride commits
+   * Time: O(1), Space: O(1)
+   */
+  private async applyRiderProfile(
+    client: any,
+    data: CreateRideRequestDTO,
+    lock: boolean = false
+  ): Promise<CreateRideRequestDTO & { passenger_count: number; luggage_count: number }> {
+    const result = await client.query(
+      `SELECT default_passenger_count, default_luggage_count FROM users
+       WHERE id = $1 AND deleted_at IS NULL${lock ? ' FOR SHARE' : ''}`,
+      [data.user_id]
+    );
 
-      logger.info('Ride request cancelled', {
-        rideRequestId: id,
-        previousStatus: rideRequest.status,
-      });
+    if (result.rows.length === 0) {
+      throw new NotFoundError('User not found');
+    }
 
-      return updatedRequest;
-    });
+    const profile = result.rows[0];
+    return {
+      ...data,
+      passenger_count: data.passenger_count ?? profile.default_passenger_count,
+      luggage_count: data.luggage_count ?? profile.default_luggage_count,
+    };
   }
 
   /**
-   * Update ride request status
+   * Lock a ride row for update (within transaction)
    * Time: O(1), Space: O(1)
    */
-  public async updateRideStatus(id: string, status: RideStatus): Promise<RideRequest> {
-    const result = await db.query<RideRequest>(
+  private async lockRideInternal(client: any, id: string): Promise<RideRequest> {
+    const result = await client.query(`SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE`, [
+      id,
+    ]);
+
+    if (result.rows.length === 0) {
+      throw new NotFoundError('Ride request not found');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * End a locked ride (within transaction): assess the charge while the
+   * pool's dispatch state is intact, detach from the pool, release promo
+   * and credits, and mark the ride cancelled with its reason
+   * Time: O(n) where n = pool members, Space: O(n)
+   */
+  private async cancelRideInternal(
+    client: any,
+    rideRequest: RideRequest,
+    reason: CancellationReason
+  ): Promise<RideCancellation> {
+    const id = rideRequest.id;
+
+    // Find the pool before touching the membership
+    const poolResult = await client.query(
+      `SELECT pool_id FROM pool_members WHERE ride_request_id = $1`,
+      [id]
+    );
+    const poolId: string | undefined = poolResult.rows[0]?.pool_id;
+
+    const charge = await chargeService.assessCancellationInternal(
+      client,
+      rideRequest,
+      reason,
+      poolId
+    );
+
+    if (poolId) {
+      await poolService.detachMemberInternal(client, poolId, id);
+    }
+
+    // Reverse the promo redemption and return held credits
+    await promotionService.releaseRideInternal(client, id);
+
+    // Update status
+    const updateResult = await client.query(
       `UPDATE ride_requests 
-       SET status = $1, updated_at = CURRENT_TIMESTAMP
-       WHERE id = $2
+       SET status = 'cancelled', cancelled_at = CURRENT_TIMESTAMP,
+           cancellation_reason = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
        RETURNING *`,
-      [status, id]
+      [id, reason]
     );
 
-    if (result.rows.length === 0) {
-      throw new Error('Ride request not found');
-    }
+    // Invalidate cache
+    await redis.del(`ride:${id}`);
+
+    logger.info('Ride request cancelled', {
+      rideRequestId: id,
+      previousStatus: rideRequest.status,
+      reason,
+      poolId,
+      charge: charge.amount,
+    });
+
+    return { ride: updateResult.rows[0], charge };
+  }
+
+  /**
+   * Update ride request status
+   * Enforces RIDE_TRANSITIONS; completed and cancelled rides are immutable.
+   * Completing a ride posts its fare to the ledger
+   * Time: O(1), Space: O(1)
+   */
+  public async updateRideStatus(id: string, status: RideStatus): Promise<RideRequest> {
+    const updated = await db.transaction(async (client) => {
+      const current = await client.query<RideRequest>(
+        'SELECT * FROM ride_requests WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (current.rows.length === 0) {
+        throw new NotFoundError('Ride request not found');
+      }
+
+      assertRideTransition(current.rows[0].status, status);
+
+      const result = await client.query<RideRequest>(
+        `UPDATE ride_requests 
+         SET status = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2
+         RETURNING *`,
+        [status, id]
+      );
+
+      if (status === 'completed') {
+        const membership = await client.query(
+          'SELECT pool_id FROM pool_members WHERE ride_request_id = $1',
+          [id]
+        );
+        await ledgerService.postRideFareInternal(client, id, membership.rows[0]?.pool_id);
+      }
+
+      return result.rows[0];
+    });
 
     // Invalidate cache
     await redis.del(`ride:${id}`);
 
-    return result.rows[0];
+    return updated;
   }
 
   /**
@@ -301,6 +741,28 @@ export class RideService {
     return result.rows;
   }
 
+  /**
+   * Run batch matching over all pending ride requests
+   * Groups compatible requests into pools and persists them in one pass
+   * Time: O(n² * k²) where n = pending requests, Space: O(n)
+   */
+  public async runBatchMatching(): Promise<MatchResult[]> {
+    const pendingRides = await this.getPendingRides();
+    if (pendingRides.length === 0) {
+      return [];
+    }
+
+    const results = await matchingEngine.generateOptimalPools(pendingRides);
+
+    logger.info('Batch matching completed', {
+      pendingCount: pendingRides.length,
+      poolsCreated: results.length,
+      totalSavings: results.reduce((sum, r) => sum + r.total_savings, 0),
+    });
+
+    return results;
+  }
+
   /**
    * Get ride with pricing
    * Time: O(1), Space: O(1)
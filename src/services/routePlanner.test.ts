@@ -0,0 +1,213 @@
+import { config } from '../config';
+import { RideRequest, RoutePlan, RouteStopType } from '../models/types';
+import { optimizeRoute, optimizeRouteExact, routeStopId, RouteStop } from '../utils/distance';
+import { routePlanner } from './routePlanner';
+
+/**
+ * Route planning, per-member detours and time windows. Pure, no database.
+ */
+
+const JFK = { lat: 40.6413, lon: -73.7781 };
+
+function ride(
+  id: string,
+  pickup: [number, number],
+  dropoff: [number, number],
+  overrides: Partial<RideRequest> = {}
+): RideRequest {
+  return {
+    id,
+    user_id: `user-${id}`,
+    pickup_location_id: 'pickup',
+    dropoff_location_id: 'dropoff',
+    pickup_latitude: pickup[0],
+    pickup_longitude: pickup[1],
+    dropoff_latitude: dropoff[0],
+    dropoff_longitude: dropoff[1],
+    passenger_count: 1,
+    luggage_count: 0,
+    max_detour_km: 5,
+    status: 'pending',
+    requested_at: new Date('2026-01-01T10:00:00Z'),
+    created_at: new Date('2026-01-01T10:00:00Z'),
+    updated_at: new Date('2026-01-01T10:00:00Z'),
+    ...overrides,
+  } as RideRequest;
+}
+
+function stopsOf(requests: RideRequest[]): RouteStop[] {
+  return requests.flatMap((r) => [
+    {
+      id: routeStopId(r.id, 'pickup'),
+      lat: r.pickup_latitude,
+      lon: r.pickup_longitude,
+      type: 'pickup' as const,
+      userId: r.user_id,
+      requestId: r.id,
+    },
+    {
+      id: routeStopId(r.id, 'dropoff'),
+      lat: r.dropoff_latitude,
+      lon: r.dropoff_longitude,
+      type: 'dropoff' as const,
+      userId: r.user_id,
+      requestId: r.id,
+    },
+  ]);
+}
+
+const airportRides = [
+  ride('a', [40.6413, -73.7781], [40.758, -73.9855]),
+  ride('b', [40.6425, -73.779], [40.7484, -73.9857]),
+  ride('c', [40.644, -73.782], [40.6892, -74.0445]),
+];
+
+describe('RoutePlanner optimizer selection', () => {
+  const exactRouteMaxStops = config.matching.exactRouteMaxStops;
+
+  afterEach(() => {
+    config.matching.exactRouteMaxStops = exactRouteMaxStops;
+  });
+
+  it.each([
+    ['exact solver at the limit', 6, optimizeRouteExact],
+    ['heuristic above the limit', 4, optimizeRoute],
+  ])('uses the %s', (_name, limit, optimizer) => {
+    config.matching.exactRouteMaxStops = limit;
+
+    const plan = routePlanner.planRoute(airportRides, JFK);
+    const expected = optimizer(stopsOf(airportRides), JFK).map((s) => s.id);
+
+    expect(plan).not.toBeNull();
+    expect(plan!.stops.map((s) => routeStopId(s.ride_request_id, s.stop_type))).toEqual(expected);
+  });
+});
+
+// On the equator one degree is ~111.19 km in both directions
+const KM_PER_DEGREE = (6371 * Math.PI) / 180;
+
+describe('RoutePlanner detours', () => {
+  const maxDetourToleranceKm = config.ridePooling.maxDetourToleranceKm;
+
+  afterEach(() => {
+    config.ridePooling.maxDetourToleranceKm = maxDetourToleranceKm;
+  });
+
+  // b is picked up off a's straight line; both drop off at the same point
+  const sideTrip = () => [
+    ride('a', [0, 0], [0, 0.02]),
+    ride('b', [0.01, 0.01], [0, 0.02]),
+  ];
+
+  it.each([
+    ['riders on one line', [ride('a', [0, 0], [0, 0.03]), ride('b', [0, 0.01], [0, 0.02])], 0, 0],
+    ['a side trip to a second pickup', sideTrip(), (2 * Math.SQRT2 - 2) * 0.01 * KM_PER_DEGREE, 0],
+  ])('measures each member against their direct trip: %s', (_name, requests, detourA, detourB) => {
+    const plan = routePlanner.planRoute(requests, routePlanner.routeStart(requests));
+
+    expect(plan!.detours.get('a')).toBeCloseTo(detourA, 3);
+    expect(plan!.detours.get('b')).toBeCloseTo(detourB, 3);
+  });
+
+  it.each([
+    ['within both limits', 5, 5, null],
+    ["over the member's own tolerance", 0.5, 5, 0.5],
+    ['over the configured maximum', 5, 0.5, 0.5],
+  ])('checks the detour %s', (_name, tolerance, configured, violatedMax) => {
+    config.ridePooling.maxDetourToleranceKm = configured;
+    const requests = sideTrip().map((r) => ({ ...r, max_detour_km: tolerance }));
+    const plan = routePlanner.planRoute(requests, routePlanner.routeStart(requests));
+
+    const violation = routePlanner.findViolation(requests, plan!);
+
+    if (violatedMax === null) {
+      expect(violation).toBeNull();
+    } else {
+      expect(violation).toMatchObject({
+        constraint: 'detour',
+        ride_request_id: 'a',
+        max_detour_km: violatedMax,
+      });
+    }
+  });
+});
+
+describe('RoutePlanner time windows', () => {
+  const averageSpeedKmh = config.ridePooling.averageSpeedKmh;
+
+  beforeEach(() => {
+    // 2 minutes per km
+    config.ridePooling.averageSpeedKmh = 30;
+  });
+
+  afterEach(() => {
+    config.ridePooling.averageSpeedKmh = averageSpeedKmh;
+  });
+
+  const at = (time: string) => new Date(`2100-01-01T${time}:00Z`);
+
+  // a rides the whole 30 km; b boards at 10 km and leaves at 20 km
+  const plan: RoutePlan = {
+    stops: [
+      ['a', 'pickup', 0],
+      ['b', 'pickup', 10],
+      ['b', 'dropoff', 20],
+      ['a', 'dropoff', 30],
+    ].map(([id, type, km], i) => ({
+      ride_request_id: id as string,
+      stop_type: type as RouteStopType,
+      latitude: 0,
+      longitude: 0,
+      sequence: i + 1,
+      cumulative_distance_km: km as number,
+    })),
+    detours: new Map([
+      ['a', 0],
+      ['b', 0],
+    ]),
+    total_distance_km: 30,
+    estimated_duration_minutes: 60,
+  };
+
+  const windowed = (a: Partial<RideRequest>, b: Partial<RideRequest>) => [
+    ride('a', [0, 0], [0, 0.3], a),
+    ride('b', [0, 0.1], [0, 0.2], b),
+  ];
+
+  it.each([
+    ['no windows', {}, {}, '09:00', true],
+    ['the first pickup window', { earliest_pickup_at: at('10:00') }, {}, '10:00', true],
+    ["a later member's pickup window", {}, { earliest_pickup_at: at('10:30') }, '10:10', true],
+    [
+      'an arrival deadline met exactly',
+      { latest_arrival_at: at('11:10') },
+      { earliest_pickup_at: at('10:30') },
+      '10:10',
+      true,
+    ],
+    [
+      'an arrival deadline that cannot be met',
+      { latest_arrival_at: at('11:00') },
+      { earliest_pickup_at: at('10:30') },
+      '10:10',
+      false,
+    ],
+    ['an arrival deadline already missed', { latest_arrival_at: at('09:30') }, {}, '09:00', false],
+  ])('schedules departure for %s', (_name, a, b, departure, feasible) => {
+    const schedule = routePlanner.computeSchedule(windowed(a, b), plan, at('09:00'));
+
+    expect(schedule).toEqual({ departure: at(departure), feasible });
+  });
+
+  it('reports an infeasible schedule as a time window violation', () => {
+    const requests = windowed(
+      { latest_arrival_at: at('11:00') },
+      { earliest_pickup_at: at('10:30') }
+    );
+
+    expect(routePlanner.findViolation(requests, plan)).toMatchObject({
+      constraint: 'time_window',
+    });
+    expect(routePlanner.findViolation(windowed({}, {}), plan)).toBeNull();
+  });
+});
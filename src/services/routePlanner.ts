@@ -0,0 +1,221 @@
+import {
+  RideRequest,
+  RoutePlan,
+  PlannedStop,
+  RouteStopType,
+  MatchRejection,
+} from '../models/types';
+import { config } from '../config';
+import {
+  calculateDistance,
+  optimizeRoute,
+  optimizeRouteExact,
+  routeStopId,
+  RoutePoint,
+  RouteStop,
+} from '../utils/distance';
+
+/**
+ * ROUTE PLANNER
+ *
+ * Builds the shared route for a set of ride requests. Stops are keyed by
+ * request id and stop type, so each member's pickup/dropoff position and
+ * detour can be read back from the optimized order.
+ *
+ * Detour = distance travelled between own pickup and dropoff on the shared
+ * route minus the direct pickup → dropoff distance.
+ *
+ * Time Complexity: O(2^k * k²) exact, O(k²) heuristic, k = stops
+ * Space Complexity: O(2^k * k)
+ */
+
+export class RoutePlanner {
+  /**
+   * Where a pool's route starts: the pickup of its first member
+   * Requests must be in join order (pool_members.joined_at, then
+   * requested_at, then id); matching, persisted stops and pricing all plan
+   * from this point so they agree on one route
+   */
+  public routeStart(requests: RideRequest[]): RoutePoint | undefined {
+    const first = requests[0];
+    return first
+      ? { lat: Number(first.pickup_latitude), lon: Number(first.pickup_longitude) }
+      : undefined;
+  }
+
+  /**
+   * Plan the optimized route for a set of requests
+   * Returns null if any request's dropoff cannot follow its pickup
+   */
+  public planRoute(requests: RideRequest[], start?: RoutePoint): RoutePlan | null {
+    const stops: RouteStop[] = [];
+
+    for (const req of requests) {
+      stops.push({
+        id: routeStopId(req.id, 'pickup'),
+        lat: Number(req.pickup_latitude),
+        lon: Number(req.pickup_longitude),
+        type: 'pickup',
+        userId: req.user_id,
+        requestId: req.id,
+      });
+      stops.push({
+        id: routeStopId(req.id, 'dropoff'),
+        lat: Number(req.dropoff_latitude),
+        lon: Number(req.dropoff_longitude),
+        type: 'dropoff',
+        userId: req.user_id,
+        requestId: req.id,
+      });
+    }
+
+    const ordered = this.optimizeStops(stops, start);
+
+    // Walk the route once, recording sequence and cumulative distance
+    const plannedStops: PlannedStop[] = [];
+    const positions = new Map<string, number>();
+    let cumulative = 0;
+    let previous: RoutePoint | null = start || null;
+
+    ordered.forEach((stop, i) => {
+      if (previous) {
+        cumulative += calculateDistance(previous.lat, previous.lon, stop.lat, stop.lon);
+      }
+      previous = stop;
+      positions.set(stop.id, i);
+      plannedStops.push({
+        ride_request_id: stop.requestId,
+        stop_type: stop.type as RouteStopType,
+        latitude: stop.lat,
+        longitude: stop.lon,
+        sequence: i + 1,
+        cumulative_distance_km: cumulative,
+      });
+    });
+
+    // Per-member detour from the cumulative distances
+    const detours = new Map<string, number>();
+    for (const req of requests) {
+      const pickupIdx = positions.get(routeStopId(req.id, 'pickup'));
+      const dropoffIdx = positions.get(routeStopId(req.id, 'dropoff'));
+
+      if (pickupIdx === undefined || dropoffIdx === undefined || dropoffIdx < pickupIdx) {
+        return null;
+      }
+
+      const directDistance = calculateDistance(
+        Number(req.pickup_latitude),
+        Number(req.pickup_longitude),
+        Number(req.dropoff_latitude),
+        Number(req.dropoff_longitude)
+      );
+      const sharedDistance =
+        plannedStops[dropoffIdx].cumulative_distance_km -
+        plannedStops[pickupIdx].cumulative_distance_km;
+
+      detours.set(req.id, Math.max(0, sharedDistance - directDistance));
+    }
+
+    return {
+      stops: plannedStops,
+      detours,
+      total_distance_km: cumulative,
+      estimated_duration_minutes: Math.ceil(
+        (cumulative / config.ridePooling.averageSpeedKmh) * 60
+      ),
+    };
+  }
+
+  /**
+   * Earliest departure that satisfies every member's time window
+   *
+   * With stop offsets t = cumulative_km / speed, a departure D must satisfy
+   *   D + t(pickup)  >= earliest_pickup_at   for every member
+   *   D + t(dropoff) <= latest_arrival_at    for every member
+   * and D >= now. The lower bound is the estimated departure; the schedule
+   * is infeasible when it exceeds the upper bound.
+   * Time: O(n * k) where n = requests, k = stops, Space: O(1)
+   */
+  public computeSchedule(
+    requests: RideRequest[],
+    plan: RoutePlan,
+    now: Date = new Date()
+  ): { departure: Date; feasible: boolean } {
+    const msPerKm = (3600 * 1000) / config.ridePooling.averageSpeedKmh;
+    let lower = now.getTime();
+    let upper = Infinity;
+
+    for (const req of requests) {
+      const pickup = plan.stops.find(
+        (s) => s.ride_request_id === req.id && s.stop_type === 'pickup'
+      );
+      const dropoff = plan.stops.find(
+        (s) => s.ride_request_id === req.id && s.stop_type === 'dropoff'
+      );
+      if (!pickup || !dropoff) continue;
+
+      if (req.earliest_pickup_at) {
+        lower = Math.max(
+          lower,
+          new Date(req.earliest_pickup_at).getTime() - pickup.cumulative_distance_km * msPerKm
+        );
+      }
+      if (req.latest_arrival_at) {
+        upper = Math.min(
+          upper,
+          new Date(req.latest_arrival_at).getTime() - dropoff.cumulative_distance_km * msPerKm
+        );
+      }
+    }
+
+    return { departure: new Date(lower), feasible: lower <= upper };
+  }
+
+  /**
+   * First constraint a planned route violates, or null if it is feasible
+   * Checks every member's detour against the lower of their own tolerance
+   * and the configured maximum, then the members' time windows
+   * Time: O(n * k) where n = requests, k = stops, Space: O(1)
+   */
+  public findViolation(requests: RideRequest[], plan: RoutePlan): MatchRejection | null {
+    for (const req of requests) {
+      const detour = plan.detours.get(req.id) || 0;
+      const maxDetour = Math.min(
+        Number(req.max_detour_km),
+        config.ridePooling.maxDetourToleranceKm
+      );
+      if (detour > maxDetour) {
+        return {
+          constraint: 'detour',
+          message: `Detour of ${detour.toFixed(2)} km for ride ${req.id} exceeds ${maxDetour} km`,
+          ride_request_id: req.id,
+          user_id: req.user_id,
+          detour_km: parseFloat(detour.toFixed(2)),
+          max_detour_km: maxDetour,
+        };
+      }
+    }
+
+    if (!this.computeSchedule(requests, plan).feasible) {
+      return {
+        constraint: 'time_window',
+        message: "No departure time satisfies every member's pickup and arrival window",
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the route optimizer for the pool size
+   * Exact DP for small pools, nearest-neighbour heuristic above the limit
+   */
+  private optimizeStops(stops: RouteStop[], start?: RoutePoint): RouteStop[] {
+    if (stops.length <= config.matching.exactRouteMaxStops) {
+      return optimizeRouteExact(stops, start);
+    }
+    return optimizeRoute(stops, start);
+  }
+}
+
+export const routePlanner = new RoutePlanner();
@@ -0,0 +1,261 @@
+import { db } from '../database/db';
+import { redis } from '../database/redis';
+import { logger } from '../logger';
+import { Tariff, CreateTariffDTO, VehicleClass } from '../models/types';
+import { config } from '../config';
+import { BadRequestError, ConflictError } from '../middleware/errorHandler';
+
+/**
+ * TARIFF SERVICE
+ *
+ * Versioned rate plans. Each plan (code) has numbered versions with an
+ * effective_from / effective_to window; publishing a new version closes
+ * the previous one at the new version's start, so history is never edited.
+ *
+ * RESOLUTION (per price calculation):
+ * - Candidates: versions active now whose airport matches the ride's pickup
+ *   or dropoff (or is unset) and whose vehicle class matches (or is unset)
+ * - Most specific wins: airport + class > airport > class > default
+ * - Ties: latest effective_from
+ * - No rows at all: rates from config.ridePooling (version 0)
+ *
+ * A tariff also selects how pooled rides are priced: a flat pool discount
+ * or cost sharing of the route (see PricingService.calculateCostShare),
+ * the currency its prices are in, and its tax lines (config.pricing.taxLines
+ * when unset).
+ *
+ * Current tariffs are cached in Redis and invalidated on publish.
+ */
+
+const TARIFF_CACHE_KEY = 'tariffs:current';
+const TARIFF_CACHE_TTL_SECONDS = 60;
+
+const NUMERIC_COLUMNS: Array<keyof Tariff> = [
+  'base_fare',
+  'per_km_rate',
+  'per_minute_rate',
+  'minimum_fare',
+  'airport_access_fee',
+  'max_surge_multiplier',
+  'pool_discount_percent',
+];
+
+export class TariffService {
+  /**
+   * List tariffs, newest version first (?code=default&active=true)
+   * Time: O(t) where t = tariffs, Space: O(t)
+   */
+  public async listTariffs(filters: { code?: string; active?: boolean } = {}): Promise<Tariff[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    if (filters.code) {
+      values.push(filters.code);
+      conditions.push(`code = $${values.length}`);
+    }
+    if (filters.active) {
+      conditions.push(
+        `effective_from <= CURRENT_TIMESTAMP
+         AND (effective_to IS NULL OR effective_to > CURRENT_TIMESTAMP)`
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await db.query<Tariff>(
+      `SELECT * FROM tariffs ${where} ORDER BY code ASC, version DESC`,
+      values
+    );
+
+    return result.rows.map((row) => this.toTariff(row));
+  }
+
+  /**
+   * Get a tariff version by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getTariff(id: string): Promise<Tariff | null> {
+    const result = await db.query<Tariff>('SELECT * FROM tariffs WHERE id = $1', [id]);
+    return result.rows.length > 0 ? this.toTariff(result.rows[0]) : null;
+  }
+
+  /**
+   * Publish a new version of a tariff plan
+   * The plan's rows are locked so concurrent publishes get consecutive
+   * versions; the open previous version is closed at effective_from
+   * Time: O(v) where v = versions of the plan, Space: O(1)
+   */
+  public async createTariff(data: CreateTariffDTO): Promise<Tariff> {
+    const tariff = await db.transaction(async (client) => {
+      if (data.airport_location_id) {
+        const location = await client.query('SELECT type FROM locations WHERE id = $1', [
+          data.airport_location_id,
+        ]);
+        if (location.rows.length === 0 || location.rows[0].type !== 'airport') {
+          throw new BadRequestError('airport_location_id must reference an airport location');
+        }
+      }
+
+      const effectiveFrom = data.effective_from ? new Date(data.effective_from) : new Date();
+
+      const versions = await client.query(
+        'SELECT version, effective_from FROM tariffs WHERE code = $1 FOR UPDATE',
+        [data.code]
+      );
+
+      const latest = versions.rows.reduce(
+        (max: any, row: any) => (!max || row.version > max.version ? row : max),
+        null
+      );
+      if (latest && new Date(latest.effective_from) >= effectiveFrom) {
+        throw new ConflictError('New version must take effect after the current version', {
+          code: data.code,
+          current_version: latest.version,
+          current_effective_from: latest.effective_from,
+        });
+      }
+
+      // Close the open previous version where the new one begins
+      await client.query(
+        `UPDATE tariffs SET effective_to = $2
+         WHERE code = $1 AND (effective_to IS NULL OR effective_to > $2)`,
+        [data.code, effectiveFrom]
+      );
+
+      const result = await client.query(
+        `INSERT INTO tariffs
+         (code, version, airport_location_id, vehicle_class, base_fare, per_km_rate,
+          per_minute_rate, minimum_fare, airport_access_fee, max_surge_multiplier,
+          pool_discount_percent, pool_pricing_mode, currency, tax_lines, effective_from,
+          effective_to)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         RETURNING *`,
+        [
+          data.code,
+          latest ? latest.version + 1 : 1,
+          data.airport_location_id || null,
+          data.vehicle_class || null,
+          data.base_fare,
+          data.per_km_rate,
+          data.per_minute_rate || 0,
+          data.minimum_fare || 0,
+          data.airport_access_fee || 0,
+          data.max_surge_multiplier,
+          data.pool_discount_percent,
+          data.pool_pricing_mode || 'flat_discount',
+          data.currency || config.pricing.currency,
+          data.tax_lines ? JSON.stringify(data.tax_lines) : null,
+          effectiveFrom,
+          data.effective_to || null,
+        ]
+      );
+
+      return this.toTariff(result.rows[0]);
+    });
+
+    await redis.del(TARIFF_CACHE_KEY);
+
+    logger.info('Tariff published', {
+      tariffId: tariff.id,
+      code: tariff.code,
+      version: tariff.version,
+    });
+
+    return tariff;
+  }
+
+  /**
+   * Tariff that prices a ride now
+   * Time: O(t) where t = current tariffs, Space: O(t)
+   */
+  public async resolveTariff(
+    ride: { pickup_location_id?: string; dropoff_location_id?: string },
+    vehicleClass: VehicleClass = config.defaultVehicleClass,
+    at: Date = new Date()
+  ): Promise<Tariff> {
+    const tariffs = await this.getCurrentTariffs();
+    const airports = [ride.pickup_location_id, ride.dropoff_location_id].filter(Boolean);
+
+    const candidates = tariffs.filter(
+      (t) =>
+        new Date(t.effective_from) <= at &&
+        (!t.effective_to || new Date(t.effective_to) > at) &&
+        (!t.airport_location_id || airports.includes(t.airport_location_id)) &&
+        (!t.vehicle_class || t.vehicle_class === vehicleClass)
+    );
+
+    if (candidates.length === 0) {
+      return this.getConfigTariff();
+    }
+
+    const specificity = (t: Tariff) => (t.airport_location_id ? 2 : 0) + (t.vehicle_class ? 1 : 0);
+    candidates.sort(
+      (a, b) =>
+        specificity(b) - specificity(a) ||
+        new Date(b.effective_from).getTime() - new Date(a.effective_from).getTime()
+    );
+
+    return candidates[0];
+  }
+
+  /**
+   * Tariffs that have not ended yet (active or scheduled), cached
+   * Time: O(t), Space: O(t)
+   */
+  private async getCurrentTariffs(): Promise<Tariff[]> {
+    try {
+      const cached = await redis.get(TARIFF_CACHE_KEY);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    } catch (error) {
+      logger.error('Error reading tariff cache:', error);
+    }
+
+    const result = await db.query<Tariff>(
+      `SELECT * FROM tariffs
+       WHERE effective_to IS NULL OR effective_to > CURRENT_TIMESTAMP`
+    );
+    const tariffs = result.rows.map((row) => this.toTariff(row));
+
+    await redis.set(TARIFF_CACHE_KEY, JSON.stringify(tariffs), TARIFF_CACHE_TTL_SECONDS);
+    return tariffs;
+  }
+
+  /**
+   * Rates from config.ridePooling, used until a tariff is published
+   * Time: O(1), Space: O(1)
+   */
+  private getConfigTariff(): Tariff {
+    const pricing = config.ridePooling;
+    return {
+      id: null,
+      code: 'config',
+      version: 0,
+      base_fare: pricing.baseFare,
+      per_km_rate: pricing.perKmRate,
+      per_minute_rate: 0,
+      minimum_fare: 0,
+      airport_access_fee: 0,
+      max_surge_multiplier: pricing.surgeMultiplierMax,
+      pool_discount_percent: pricing.poolDiscountPercent,
+      pool_pricing_mode: pricing.poolPricingMode,
+      currency: config.pricing.currency,
+      tax_lines: null,
+      effective_from: new Date(0),
+    };
+  }
+
+  /**
+   * Convert DECIMAL columns (returned as strings by pg) to numbers
+   * Time: O(1), Space: O(1)
+   */
+  private toTariff(row: any): Tariff {
+    const tariff = { ...row };
+    for (const column of NUMERIC_COLUMNS) {
+      tariff[column] = Number(row[column]);
+    }
+    return tariff;
+  }
+}
+
+export const tariffService = new TariffService();
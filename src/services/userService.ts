@@ -0,0 +1,176 @@
+import { db } from '../database/db';
+import { logger } from '../logger';
+import { User, CreateUserDTO } from '../models/types';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import { rideService, RideCancellation } from './rideService';
+
+/**
+ * USER SERVICE
+ *
+ * Rider accounts and the profile fields pooling uses: default party size
+ * for ride requests, accessibility needs for vehicle assignment and the
+ * preferred language for rider-facing messages.
+ *
+ * Accounts are soft-deleted: the row keeps its rides, charges and ledger
+ * history, and its active rides are cancelled by the system (fees waived).
+ * Emails are stored lowercased and are unique among active accounts, so a
+ * deleted account's email can register again.
+ */
+
+const USER_COLUMNS = [
+  'name',
+  'email',
+  'phone',
+  'preferred_language',
+  'accessibility_needs',
+  'default_passenger_count',
+  'default_luggage_count',
+];
+
+export interface UserDeletion {
+  user: User;
+  cancelled_rides: RideCancellation[];
+}
+
+export class UserService {
+  /**
+   * Create a user
+   * Time: O(1), Space: O(1)
+   */
+  public async createUser(data: CreateUserDTO): Promise<User> {
+    try {
+      const result = await db.query<User>(
+        `INSERT INTO users
+         (name, email, phone, preferred_language, accessibility_needs,
+          default_passenger_count, default_luggage_count)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          data.name,
+          data.email.toLowerCase(),
+          data.phone,
+          data.preferred_language || 'en',
+          data.accessibility_needs || [],
+          data.default_passenger_count || 1,
+          data.default_luggage_count || 0,
+        ]
+      );
+
+      logger.info('User created', { userId: result.rows[0].id });
+
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError('Email is already registered', { email: data.email });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get an active user by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getUser(id: string): Promise<User | null> {
+    const result = await db.query<User>(
+      'SELECT * FROM users WHERE id = $1 AND deleted_at IS NULL',
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List active users, optionally by email
+   * Time: O(n), Space: O(n)
+   */
+  public async listUsers(filters: { email?: string } = {}): Promise<User[]> {
+    const result = await db.query<User>(
+      `SELECT * FROM users
+       WHERE deleted_at IS NULL
+       AND ($1::text IS NULL OR LOWER(email) = LOWER($1))
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [filters.email || null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Update profile fields of an active user
+   * Time: O(c) where c = columns, Space: O(c)
+   */
+  public async updateUser(id: string, data: Partial<CreateUserDTO>): Promise<User> {
+    const values: Record<string, any> = { ...data };
+    if (data.email) {
+      values.email = data.email.toLowerCase();
+    }
+
+    const fields = USER_COLUMNS.filter((c) => values[c] !== undefined);
+    if (fields.length === 0) {
+      const current = await this.getUser(id);
+      if (!current) {
+        throw new NotFoundError('User not found');
+      }
+      return current;
+    }
+
+    const assignments = fields.map((f, i) => `${f} = $${i + 1}`).join(', ');
+    try {
+      const result = await db.query<User>(
+        `UPDATE users SET ${assignments}, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $${fields.length + 1} AND deleted_at IS NULL
+         RETURNING *`,
+        [...fields.map((f) => values[f]), id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('User not found');
+      }
+      return result.rows[0];
+    } catch (error: any) {
+      if (error.code === '23505') {
+        throw new ConflictError('Email is already registered', { email: data.email });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Soft-delete a user and cancel their active rides (system-initiated,
+   * so no fee). The user row is locked first: ride requests take a share
+   * lock on it, so none can be booked between the cancellation and the
+   * delete. Refused while one of the user's pools is in progress
+   * Time: O(r · n) where r = active rides, n = pool members, Space: O(r)
+   */
+  public async deleteUser(id: string): Promise<UserDeletion> {
+    const deletion = await db.transaction(async (client) => {
+      const locked = await client.query(
+        'SELECT id FROM users WHERE id = $1 AND deleted_at IS NULL FOR UPDATE',
+        [id]
+      );
+      if (locked.rows.length === 0) {
+        throw new NotFoundError('User not found');
+      }
+
+      const cancelledRides = await rideService.cancelUserRidesInternal(client, id);
+
+      const result = await client.query(
+        `UPDATE users SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1
+         RETURNING *`,
+        [id]
+      );
+
+      return { user: result.rows[0], cancelled_rides: cancelledRides };
+    });
+
+    logger.info('User deleted', {
+      userId: id,
+      cancelledRides: deletion.cancelled_rides.length,
+    });
+
+    return deletion;
+  }
+}
+
+export const userService = new UserService();
@@ -0,0 +1,357 @@
+import { db } from '../database/db';
+import { redis } from '../database/redis';
+import { logger } from '../logger';
+import {
+  Vehicle,
+  Driver,
+  RidePool,
+  VehicleClass,
+  CreateVehicleDTO,
+  CreateDriverDTO,
+} from '../models/types';
+import { config } from '../config';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+
+/**
+ * VEHICLE SERVICE
+ *
+ * Manages the fleet (vehicles and drivers) and pool-to-vehicle assignment
+ * Vehicle rows are locked with FOR UPDATE SKIP LOCKED during assignment so
+ * concurrent confirmations never receive the same vehicle
+ */
+
+const VEHICLE_COLUMNS = [
+  'driver_id',
+  'registration_number',
+  'vehicle_class',
+  'seat_count',
+  'luggage_capacity',
+  'accessibility_features',
+  'status',
+  'current_latitude',
+  'current_longitude',
+];
+
+const DRIVER_COLUMNS = ['name', 'phone', 'license_number', 'status'];
+
+export class VehicleService {
+  /**
+   * Seat and luggage limits for a vehicle class
+   * Time: O(1), Space: O(1)
+   */
+  public getClassCapacity(vehicleClass: VehicleClass): { seats: number; luggage: number } {
+    return config.vehicleClasses[vehicleClass] || config.vehicleClasses[config.defaultVehicleClass];
+  }
+
+  /**
+   * Vehicle class for a group of riders
+   * The default class when the group fits, otherwise the smallest class
+   * with enough seats and luggage room; the largest class if none fits
+   * Time: O(c log c) where c = vehicle classes, Space: O(c)
+   */
+  public selectVehicleClass(passengers: number, luggage: number): VehicleClass {
+    const fits = (vehicleClass: VehicleClass) => {
+      const capacity = this.getClassCapacity(vehicleClass);
+      return passengers <= capacity.seats && luggage <= capacity.luggage;
+    };
+
+    if (fits(config.defaultVehicleClass)) {
+      return config.defaultVehicleClass;
+    }
+
+    const bySize = (Object.keys(config.vehicleClasses) as VehicleClass[]).sort((a, b) => {
+      const capA = this.getClassCapacity(a);
+      const capB = this.getClassCapacity(b);
+      return capA.seats - capB.seats || capA.luggage - capB.luggage;
+    });
+
+    return bySize.find(fits) || bySize[bySize.length - 1];
+  }
+
+  /**
+   * Create a vehicle
+   * Time: O(1), Space: O(1)
+   */
+  public async createVehicle(data: CreateVehicleDTO): Promise<Vehicle> {
+    const result = await db.query<Vehicle>(
+      `INSERT INTO vehicles
+       (driver_id, registration_number, vehicle_class, seat_count, luggage_capacity,
+        accessibility_features, status, current_latitude, current_longitude)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        data.driver_id || null,
+        data.registration_number,
+        data.vehicle_class,
+        data.seat_count,
+        data.luggage_capacity,
+        data.accessibility_features || [],
+        data.status || 'available',
+        data.current_latitude ?? null,
+        data.current_longitude ?? null,
+      ]
+    );
+
+    logger.info('Vehicle created', { vehicleId: result.rows[0].id });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get vehicle by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getVehicle(id: string): Promise<Vehicle | null> {
+    const result = await db.query<Vehicle>('SELECT * FROM vehicles WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List vehicles, optionally filtered by status and class
+   * Time: O(n), Space: O(n)
+   */
+  public async listVehicles(filters: {
+    status?: string;
+    vehicle_class?: string;
+  }): Promise<Vehicle[]> {
+    const result = await db.query<Vehicle>(
+      `SELECT * FROM vehicles
+       WHERE ($1::text IS NULL OR status = $1)
+       AND ($2::text IS NULL OR vehicle_class = $2)
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [filters.status || null, filters.vehicle_class || null]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Update vehicle fields
+   * Time: O(1), Space: O(1)
+   */
+  public async updateVehicle(id: string, data: Partial<CreateVehicleDTO>): Promise<Vehicle> {
+    const updated = await this.updateRow<Vehicle>('vehicles', VEHICLE_COLUMNS, id, data);
+    if (!updated) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a vehicle that is not serving an active pool
+   * Time: O(1), Space: O(1)
+   */
+  public async deleteVehicle(id: string): Promise<void> {
+    await db.transaction(async (client) => {
+      const activePool = await client.query(
+        `SELECT id FROM ride_pools
+         WHERE vehicle_id = $1 AND status IN ('forming', 'confirmed', 'in_progress')
+         LIMIT 1`,
+        [id]
+      );
+
+      if (activePool.rows.length > 0) {
+        throw new ConflictError('Vehicle is assigned to an active pool');
+      }
+
+      const result = await client.query('DELETE FROM vehicles WHERE id = $1', [id]);
+      if (result.rowCount === 0) {
+        throw new NotFoundError('Vehicle not found');
+      }
+    });
+  }
+
+  /**
+   * Create a driver
+   * Time: O(1), Space: O(1)
+   */
+  public async createDriver(data: CreateDriverDTO): Promise<Driver> {
+    const result = await db.query<Driver>(
+      `INSERT INTO drivers (name, phone, license_number, status)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.name, data.phone, data.license_number, data.status || 'active']
+    );
+
+    logger.info('Driver created', { driverId: result.rows[0].id });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Get driver by ID
+   * Time: O(1), Space: O(1)
+   */
+  public async getDriver(id: string): Promise<Driver | null> {
+    const result = await db.query<Driver>('SELECT * FROM drivers WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List drivers
+   * Time: O(n), Space: O(n)
+   */
+  public async listDrivers(): Promise<Driver[]> {
+    const result = await db.query<Driver>(
+      'SELECT * FROM drivers ORDER BY created_at DESC LIMIT 100'
+    );
+    return result.rows;
+  }
+
+  /**
+   * Update driver fields
+   * Time: O(1), Space: O(1)
+   */
+  public async updateDriver(id: string, data: Partial<CreateDriverDTO>): Promise<Driver> {
+    const updated = await this.updateRow<Driver>('drivers', DRIVER_COLUMNS, id, data);
+    if (!updated) {
+      throw new NotFoundError('Driver not found');
+    }
+    return updated;
+  }
+
+  /**
+   * Delete a driver (vehicles keep existing with driver_id = NULL)
+   * Time: O(1), Space: O(1)
+   */
+  public async deleteDriver(id: string): Promise<void> {
+    const result = await db.query('DELETE FROM drivers WHERE id = $1', [id]);
+    if (result.rowCount === 0) {
+      throw new NotFoundError('Driver not found');
+    }
+  }
+
+  /**
+   * Assign a vehicle to a pool (within transaction)
+   * Uses the requested vehicle if given, otherwise the smallest available
+   * vehicle of the pool's class that fits its passengers and luggage.
+   * Either way the vehicle must have every accessibility feature its
+   * riders' profiles need. Pool capacity limits are taken from the
+   * assigned vehicle.
+   * Time: O(v log v) where v = candidate vehicles, Space: O(1)
+   */
+  public async assignVehicleInternal(
+    client: any,
+    pool: RidePool,
+    vehicleId?: string
+  ): Promise<RidePool> {
+    const needsResult = await client.query(
+      `SELECT DISTINCT need FROM pool_members pm
+       JOIN ride_requests rr ON rr.id = pm.ride_request_id
+       JOIN users u ON u.id = rr.user_id
+       CROSS JOIN LATERAL unnest(u.accessibility_needs) AS need
+       WHERE pm.pool_id = $1`,
+      [pool.id]
+    );
+    const needs: string[] = needsResult.rows.map((row: any) => row.need);
+
+    const vehicleResult = vehicleId
+      ? await client.query(
+          `SELECT * FROM vehicles WHERE id = $1 AND status = 'available' FOR UPDATE`,
+          [vehicleId]
+        )
+      : await client.query(
+          `SELECT * FROM vehicles
+           WHERE status = 'available' AND vehicle_class = $1
+           AND seat_count >= $2 AND luggage_capacity >= $3
+           AND accessibility_features @> $4::text[]
+           ORDER BY seat_count ASC, luggage_capacity ASC
+           LIMIT 1
+           FOR UPDATE SKIP LOCKED`,
+          [pool.vehicle_class, pool.current_passenger_count, pool.current_luggage_count, needs]
+        );
+
+    if (vehicleResult.rows.length === 0) {
+      throw new ConflictError(
+        vehicleId
+          ? 'Vehicle not available'
+          : `No available ${pool.vehicle_class} vehicle for this pool`,
+        needs.length > 0 ? { accessibility_needs: needs } : undefined
+      );
+    }
+
+    const vehicle: Vehicle = vehicleResult.rows[0];
+
+    if (
+      vehicle.seat_count < pool.current_passenger_count ||
+      vehicle.luggage_capacity < pool.current_luggage_count
+    ) {
+      throw new ConflictError('Vehicle capacity is too small for this pool');
+    }
+
+    const missing = needs.filter((need) => !vehicle.accessibility_features.includes(need));
+    if (missing.length > 0) {
+      throw new ConflictError('Vehicle lacks accessibility features riders need', {
+        missing_features: missing,
+      });
+    }
+
+    await client.query(
+      `UPDATE vehicles SET status = 'assigned', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [vehicle.id]
+    );
+
+    const poolResult = await client.query(
+      `UPDATE ride_pools
+       SET vehicle_id = $1, vehicle_class = $2, max_passengers = $3, max_luggage = $4,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5
+       RETURNING *`,
+      [vehicle.id, vehicle.vehicle_class, vehicle.seat_count, vehicle.luggage_capacity, pool.id]
+    );
+
+    await redis.del(`pool:${pool.id}`);
+
+    logger.info('Vehicle assigned to pool', { poolId: pool.id, vehicleId: vehicle.id });
+
+    return poolResult.rows[0];
+  }
+
+  /**
+   * Return a pool's vehicle to the available fleet (within transaction)
+   * Time: O(1), Space: O(1)
+   */
+  public async releaseVehicleInternal(client: any, pool: RidePool): Promise<void> {
+    if (!pool.vehicle_id) {
+      return;
+    }
+
+    await client.query(
+      `UPDATE vehicles SET status = 'available', updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status IN ('assigned', 'in_service')`,
+      [pool.vehicle_id]
+    );
+
+    logger.info('Vehicle released', { poolId: pool.id, vehicleId: pool.vehicle_id });
+  }
+
+  /**
+   * Update only the whitelisted columns present in data
+   * Time: O(c) where c = columns, Space: O(c)
+   */
+  private async updateRow<T>(
+    table: string,
+    columns: string[],
+    id: string,
+    data: Record<string, any>
+  ): Promise<T | null> {
+    const fields = columns.filter((c) => data[c] !== undefined);
+    if (fields.length === 0) {
+      const current = await db.query<T>(`SELECT * FROM ${table} WHERE id = $1`, [id]);
+      return current.rows[0] || null;
+    }
+
+    const assignments = fields.map((f, i) => `${f} = $${i + 1}`).join(', ');
+    const result = await db.query<T>(
+      `UPDATE ${table} SET ${assignments}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${fields.length + 1}
+       RETURNING *`,
+      [...fields.map((f) => data[f]), id]
+    );
+
+    return result.rows[0] || null;
+  }
+}
+
+export const vehicleService = new VehicleService();
@@ -0,0 +1,144 @@
+import {
+  calculateDistance,
+  calculateTotalDistance,
+  optimizeRoute,
+  optimizeRouteExact,
+  routeStopId,
+  RoutePoint,
+  RouteStop,
+} from './distance';
+
+/**
+ * Route optimizers checked against brute force over every order that picks
+ * each rider up before dropping them off. Pure, no database.
+ */
+
+const JFK: RoutePoint = { lat: 40.6413, lon: -73.7781 };
+
+type Trip = [number, number, number, number];
+
+function stopsFor(trips: Trip[], onBoard: number[] = []): RouteStop[] {
+  return trips.flatMap(([pLat, pLon, dLat, dLon], i) => {
+    const requestId = `r${i}`;
+    const stop = (type: 'pickup' | 'dropoff', lat: number, lon: number): RouteStop => ({
+      id: routeStopId(requestId, type),
+      lat,
+      lon,
+      type,
+      userId: `u${i}`,
+      requestId,
+    });
+    const dropoff = stop('dropoff', dLat, dLon);
+    return onBoard.includes(i) ? [dropoff] : [stop('pickup', pLat, pLon), dropoff];
+  });
+}
+
+function routeCost(order: RouteStop[], start?: RoutePoint): number {
+  const lead = start && order.length > 0
+    ? calculateDistance(start.lat, start.lon, order[0].lat, order[0].lon)
+    : 0;
+  return lead + calculateTotalDistance(order);
+}
+
+function isValidOrder(order: RouteStop[], stops: RouteStop[]): boolean {
+  const pickups = new Set(stops.filter((s) => s.type === 'pickup').map((s) => s.requestId));
+  const seen = new Set<string>();
+  for (const stop of order) {
+    if (stop.type === 'dropoff' && pickups.has(stop.requestId) && !seen.has(stop.requestId)) {
+      return false;
+    }
+    seen.add(stop.requestId);
+  }
+  return order.length === stops.length && new Set(order.map((s) => s.id)).size === stops.length;
+}
+
+// Cheapest valid order by enumerating all permutations (n ≤ 8)
+function bruteForceCost(stops: RouteStop[], start?: RoutePoint): number {
+  let best = Infinity;
+  const walk = (order: RouteStop[], rest: RouteStop[]) => {
+    if (rest.length === 0) {
+      if (isValidOrder(order, stops)) best = Math.min(best, routeCost(order, start));
+      return;
+    }
+    rest.forEach((stop, i) => walk([...order, stop], [...rest.slice(0, i), ...rest.slice(i + 1)]));
+  };
+  walk([], stops);
+  return best;
+}
+
+const cases: Array<[string, Trip[], RoutePoint | undefined, number[]]> = [
+  ['one rider', [[40.6413, -73.7781, 40.758, -73.9855]], undefined, []],
+  [
+    'two riders to Midtown and Brooklyn',
+    [
+      [40.6413, -73.7781, 40.758, -73.9855],
+      [40.645, -73.78, 40.6782, -73.9442],
+    ],
+    JFK,
+    [],
+  ],
+  [
+    'three riders with crossing trips',
+    [
+      [40.6413, -73.7781, 40.758, -73.9855],
+      [40.7128, -74.006, 40.6413, -73.7781],
+      [40.73, -73.99, 40.78, -73.95],
+    ],
+    undefined,
+    [],
+  ],
+  [
+    'three riders from the airport curb',
+    [
+      [40.6413, -73.7781, 40.758, -73.9855],
+      [40.6425, -73.779, 40.7484, -73.9857],
+      [40.644, -73.782, 40.6892, -74.0445],
+    ],
+    JFK,
+    [],
+  ],
+  [
+    'four riders, one already on board',
+    [
+      [40.6413, -73.7781, 40.758, -73.9855],
+      [40.645, -73.78, 40.6782, -73.9442],
+      [40.7, -73.9, 40.75, -73.99],
+      [40.66, -73.82, 40.72, -73.95],
+    ],
+    { lat: 40.67, lon: -73.85 },
+    [3],
+  ],
+];
+
+describe('optimizeRouteExact', () => {
+  it.each(cases)('matches brute force: %s', (_name, trips, start, onBoard) => {
+    const stops = stopsFor(trips, onBoard);
+    const order = optimizeRouteExact(stops, start);
+
+    expect(isValidOrder(order, stops)).toBe(true);
+    expect(routeCost(order, start)).toBeCloseTo(bruteForceCost(stops, start), 9);
+  });
+
+  it.each(cases)('is never longer than the heuristic: %s', (_name, trips, start, onBoard) => {
+    const stops = stopsFor(trips, onBoard);
+
+    expect(routeCost(optimizeRouteExact(stops, start), start)).toBeLessThanOrEqual(
+      routeCost(optimizeRoute(stops, start), start) + 1e-9
+    );
+  });
+
+  it('returns empty and single-stop lists unchanged', () => {
+    const [pickup] = stopsFor([[40.6413, -73.7781, 40.758, -73.9855]]);
+
+    expect(optimizeRouteExact([])).toEqual([]);
+    expect(optimizeRouteExact([pickup])).toEqual([pickup]);
+  });
+});
+
+describe('optimizeRoute', () => {
+  it.each(cases)('keeps every pickup before its dropoff: %s', (_name, trips, start, onBoard) => {
+    const stops = stopsFor(trips, onBoard);
+
+    expect(isValidOrder(optimizeRoute(stops, start), stops)).toBe(true);
+  });
+});
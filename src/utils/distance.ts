@@ -70,6 +70,33 @@ export function calculateDetour(
   return totalWithNewPoint - directDistance;
 }
 
+export interface RoutePoint {
+  lat: number;
+  lon: number;
+}
+
+export interface RouteStop extends RoutePoint {
+  id: string;
+  type: 'pickup' | 'dropoff';
+  userId: string;
+  requestId?: string;
+}
+
+/**
+ * Stable stop id for a request's pickup or dropoff
+ */
+export function routeStopId(requestId: string, type: 'pickup' | 'dropoff'): string {
+  return `${requestId}-${type}`;
+}
+
+/**
+ * Key pairing a pickup with its dropoff. Falls back to userId for callers
+ * that do not track request ids.
+ */
+function stopPairKey(stop: RouteStop): string {
+  return stop.requestId || stop.userId;
+}
+
 /**
  * OPTIMIZED ROUTE CALCULATION USING NEAREST NEIGHBOR
  * 
@@ -77,26 +104,20 @@ export function calculateDetour(
  * Space Complexity: O(n)
  * 
  * Uses a greedy nearest-neighbor approach to optimize the route.
- * For small pools (max 4 passengers), this provides good results quickly.
+ * Used as a fallback for pools too large for the exact solver.
+ * A dropoff whose pickup is not part of the stop list (passenger already
+ * on board) may be visited at any time.
  */
-export function optimizeRoute(
-  stops: Array<{ id: string; lat: number; lon: number; type: 'pickup' | 'dropoff'; userId: string }>
-): Array<{ id: string; lat: number; lon: number; type: 'pickup' | 'dropoff'; userId: string }> {
+export function optimizeRoute<T extends RouteStop>(stops: T[], start?: RoutePoint): T[] {
   if (stops.length <= 1) return stops;
 
-  const optimized: typeof stops = [];
+  const optimized: T[] = [];
   const visited = new Set<number>();
-  
-  // Start with the first pickup
-  let currentIdx = 0;
-  optimized.push(stops[currentIdx]);
-  visited.add(currentIdx);
-
-  // Constraint: Must pick up before drop off for each user
-  const userPickedUp = new Set<string>();
-  if (stops[currentIdx].type === 'pickup') {
-    userPickedUp.add(stops[currentIdx].userId);
-  }
+  const pickupKeys = new Set(stops.filter((s) => s.type === 'pickup').map(stopPairKey));
+
+  // Constraint: Must pick up before drop off for each request
+  const pickedUp = new Set<string>();
+  let current: RoutePoint | null = start || null;
 
   while (optimized.length < stops.length) {
     let nearestIdx = -1;
@@ -105,17 +126,16 @@ export function optimizeRoute(
     for (let i = 0; i < stops.length; i++) {
       if (visited.has(i)) continue;
 
-      // Check constraint: can only drop off if user was picked up
-      if (stops[i].type === 'dropoff' && !userPickedUp.has(stops[i].userId)) {
+      // Check constraint: can only drop off if passenger was picked up
+      const key = stopPairKey(stops[i]);
+      if (stops[i].type === 'dropoff' && pickupKeys.has(key) && !pickedUp.has(key)) {
         continue;
       }
 
-      const distance = calculateDistance(
-        optimized[optimized.length - 1].lat,
-        optimized[optimized.length - 1].lon,
-        stops[i].lat,
-        stops[i].lon
-      );
+      // Without a fixed start, begin at the first eligible stop
+      const distance = current
+        ? calculateDistance(current.lat, current.lon, stops[i].lat, stops[i].lon)
+        : 0;
 
       if (distance < minDistance) {
         minDistance = distance;
@@ -135,15 +155,108 @@ export function optimizeRoute(
 
     optimized.push(stops[nearestIdx]);
     visited.add(nearestIdx);
-    
+    current = stops[nearestIdx];
+
     if (stops[nearestIdx].type === 'pickup') {
-      userPickedUp.add(stops[nearestIdx].userId);
+      pickedUp.add(stopPairKey(stops[nearestIdx]));
     }
   }
 
   return optimized;
 }
 
+/**
+ * EXACT ROUTE OPTIMIZATION USING BITMASK DYNAMIC PROGRAMMING
+ * 
+ * Time Complexity: O(2^n * n²) where n is number of stops
+ * Space Complexity: O(2^n * n)
+ * 
+ * Held-Karp style DP over (visited set, last stop) that returns the
+ * minimum-distance open path visiting every stop exactly once, where each
+ * pickup precedes its dropoff. An optional fixed start (airport curb,
+ * vehicle position) is charged as the leg to the first stop.
+ * A pool has at most 8 stops, i.e. 256 * 8 states.
+ */
+export function optimizeRouteExact<T extends RouteStop>(stops: T[], start?: RoutePoint): T[] {
+  const n = stops.length;
+  if (n <= 1) return stops;
+
+  // Index of the pickup each stop depends on (-1 if unconstrained)
+  const pickupIndexByKey = new Map<string, number>();
+  stops.forEach((stop, i) => {
+    if (stop.type === 'pickup') pickupIndexByKey.set(stopPairKey(stop), i);
+  });
+  const requiredPickup = stops.map((stop) =>
+    stop.type === 'dropoff' ? pickupIndexByKey.get(stopPairKey(stop)) ?? -1 : -1
+  );
+
+  // Precompute pairwise distances O(n²)
+  const dist: number[][] = stops.map((a) =>
+    stops.map((b) => calculateDistance(a.lat, a.lon, b.lat, b.lon))
+  );
+
+  const full = (1 << n) - 1;
+  const cost: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(Infinity));
+  const parent: number[][] = Array.from({ length: 1 << n }, () => new Array(n).fill(-1));
+
+  const canVisit = (mask: number, i: number): boolean =>
+    (mask & (1 << i)) === 0 &&
+    (requiredPickup[i] === -1 || (mask & (1 << requiredPickup[i])) !== 0);
+
+  for (let i = 0; i < n; i++) {
+    if (canVisit(0, i)) {
+      cost[1 << i][i] = start
+        ? calculateDistance(start.lat, start.lon, stops[i].lat, stops[i].lon)
+        : 0;
+    }
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 0; last < n; last++) {
+      const current = cost[mask][last];
+      if (current === Infinity) continue;
+
+      for (let next = 0; next < n; next++) {
+        if (!canVisit(mask, next)) continue;
+
+        const nextMask = mask | (1 << next);
+        const candidate = current + dist[last][next];
+        if (candidate < cost[nextMask][next]) {
+          cost[nextMask][next] = candidate;
+          parent[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = -1;
+  let bestCost = Infinity;
+  for (let last = 0; last < n; last++) {
+    if (cost[full][last] < bestCost) {
+      bestCost = cost[full][last];
+      bestLast = last;
+    }
+  }
+
+  // Infeasible (e.g. duplicate pickups); defer to the heuristic
+  if (bestLast === -1) {
+    return optimizeRoute(stops, start);
+  }
+
+  // Reconstruct path backwards
+  const order: T[] = [];
+  let mask = full;
+  let idx = bestLast;
+  while (idx !== -1) {
+    order.push(stops[idx]);
+    const prev = parent[mask][idx];
+    mask &= ~(1 << idx);
+    idx = prev;
+  }
+
+  return order.reverse();
+}
+
 /**
  * CALCULATE TOTAL ROUTE DISTANCE
  * 
@@ -0,0 +1,65 @@
+import { decodeGeohash, encodeGeohash, geohashCellSize, geohashesWithinRadius } from './geohash';
+
+/**
+ * Candidate cells must cover every point within the radius: a miss drops a
+ * poolable ride from getAvailablePools. Pure, no database.
+ */
+
+// Point `km` away from (lat, lon) along a great circle at `bearing` degrees
+function destination(lat: number, lon: number, km: number, bearing: number) {
+  const toRad = Math.PI / 180;
+  const d = km / 6371;
+  const phi = lat * toRad;
+  const theta = bearing * toRad;
+  const phi2 = Math.asin(
+    Math.sin(phi) * Math.cos(d) + Math.cos(phi) * Math.sin(d) * Math.cos(theta)
+  );
+  const lambda =
+    lon * toRad +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(d) * Math.cos(phi),
+      Math.cos(d) - Math.sin(phi) * Math.sin(phi2)
+    );
+  return { lat: phi2 / toRad, lon: ((lambda / toRad + 540) % 360) - 180 };
+}
+
+// South-west corner of the cell holding a point
+function cellCorner(lat: number, lon: number, precision: number) {
+  const center = decodeGeohash(encodeGeohash(lat, lon, precision));
+  const size = geohashCellSize(precision);
+  return { lat: center.lat - size.lat / 2, lon: center.lon - size.lon / 2 };
+}
+
+const jfkCorner = cellCorner(40.6413, -73.7781, 5);
+
+describe('geohashesWithinRadius', () => {
+  it.each([
+    ['JFK', 40.6413, -73.7781, 3, 5],
+    ['a cell corner', jfkCorner.lat, jfkCorner.lon, 3, 5],
+    ['just inside a cell corner', jfkCorner.lat + 1e-9, jfkCorner.lon + 1e-9, 0.5, 6],
+    ['the equator and prime meridian', 0, 0, 10, 5],
+    ['Heathrow with a radius wider than a cell', 51.47, -0.4543, 12, 6],
+    ['Longyearbyen at 78°N', 78.2461, 15.4656, 5, 5],
+    ['Alert at 82.5°N', 82.5178, -62.2806, 20, 4],
+    ['McMurdo at 77.8°S', -77.8419, 166.6863, 8, 5],
+  ])('covers every point within the radius around %s', (_name, lat, lon, radiusKm, precision) => {
+    const cells = new Set(geohashesWithinRadius(lat, lon, radiusKm, precision));
+
+    for (let bearing = 0; bearing < 360; bearing += 5) {
+      for (const fraction of [0.25, 0.5, 0.75, 0.999]) {
+        const point = destination(lat, lon, radiusKm * fraction, bearing);
+        expect(cells).toContain(encodeGeohash(point.lat, point.lon, precision));
+      }
+    }
+  });
+
+  it.each([
+    [3, 5],
+    [12, 6],
+  ])('returns each cell once for a %s km radius at precision %s', (radiusKm, precision) => {
+    const cells = geohashesWithinRadius(40.6413, -73.7781, radiusKm, precision);
+
+    expect(new Set(cells).size).toBe(cells.length);
+    cells.forEach((cell) => expect(cell).toHaveLength(precision));
+  });
+});
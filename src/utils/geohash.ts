@@ -0,0 +1,145 @@
+/**
+ * GEOHASH ENCODING AND CELL COVERING
+ *
+ * Geohash interleaves longitude/latitude bisection bits into a base-32
+ * string; points sharing a prefix lie in the same cell. Storing each ride's
+ * pickup/dropoff cell lets candidate pools be found with an indexed
+ * `geohash = ANY(cells)` lookup instead of scanning every open pool.
+ *
+ * Cell size by precision (at the equator):
+ *   4 → 39.1km × 19.5km, 5 → 4.9km × 4.9km, 6 → 1.2km × 0.6km
+ */
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+/**
+ * Encode a point as a geohash
+ * Time Complexity: O(p) where p is precision
+ * Space Complexity: O(p)
+ */
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let hash = '';
+  let bit = 0;
+  let ch = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lonMin + lonMax) / 2;
+      if (lon >= mid) {
+        ch = (ch << 1) | 1;
+        lonMin = mid;
+      } else {
+        ch = ch << 1;
+        lonMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        ch = (ch << 1) | 1;
+        latMin = mid;
+      } else {
+        ch = ch << 1;
+        latMax = mid;
+      }
+    }
+
+    evenBit = !evenBit;
+    if (++bit === 5) {
+      hash += BASE32.charAt(ch);
+      bit = 0;
+      ch = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Center point of a geohash cell
+ * Time Complexity: O(p) where p = hash length
+ * Space Complexity: O(1)
+ */
+export function decodeGeohash(hash: string): { lat: number; lon: number } {
+  let latMin = -90;
+  let latMax = 90;
+  let lonMin = -180;
+  let lonMax = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid geohash: ${hash}`);
+    }
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (lonMin + lonMax) / 2;
+        if (set) lonMin = mid;
+        else lonMax = mid;
+      } else {
+        const mid = (latMin + latMax) / 2;
+        if (set) latMin = mid;
+        else latMax = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { lat: (latMin + latMax) / 2, lon: (lonMin + lonMax) / 2 };
+}
+
+/**
+ * Cell height/width in degrees for a precision
+ * Time Complexity: O(1), Space Complexity: O(1)
+ */
+export function geohashCellSize(precision: number): { lat: number; lon: number } {
+  const bits = precision * 5;
+  const lonBits = Math.ceil(bits / 2);
+  const latBits = Math.floor(bits / 2);
+  return {
+    lat: 180 / Math.pow(2, latBits),
+    lon: 360 / Math.pow(2, lonBits),
+  };
+}
+
+/**
+ * All geohash cells overlapping the box of `radiusKm` around a point
+ * Time Complexity: O(c) where c = covering cells
+ * Space Complexity: O(c)
+ */
+export function geohashesWithinRadius(
+  lat: number,
+  lon: number,
+  radiusKm: number,
+  precision: number
+): string[] {
+  const kmPerDegLat = 111.32;
+  const kmPerDegLon = Math.max(kmPerDegLat * Math.cos((lat * Math.PI) / 180), 0.01);
+
+  const minLat = Math.max(lat - radiusKm / kmPerDegLat, -90);
+  const maxLat = Math.min(lat + radiusKm / kmPerDegLat, 90);
+  const minLon = Math.max(lon - radiusKm / kmPerDegLon, -180);
+  const maxLon = Math.min(lon + radiusKm / kmPerDegLon, 180);
+
+  const cell = geohashCellSize(precision);
+  const latSteps = Math.ceil((maxLat - minLat) / cell.lat) + 1;
+  const lonSteps = Math.ceil((maxLon - minLon) / cell.lon) + 1;
+
+  const cells = new Set<string>();
+  for (let i = 0; i <= latSteps; i++) {
+    const cellLat = Math.min(minLat + i * cell.lat, maxLat);
+    for (let j = 0; j <= lonSteps; j++) {
+      const cellLon = Math.min(minLon + j * cell.lon, maxLon);
+      cells.add(encodeGeohash(cellLat, cellLon, precision));
+    }
+  }
+
+  return Array.from(cells);
+}
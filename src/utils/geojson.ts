@@ -0,0 +1,49 @@
+import { PoolStop } from '../models/types';
+
+/**
+ * GEOJSON ROUTE RENDERING
+ *
+ * Time Complexity: O(k) where k is number of stops
+ * Space Complexity: O(k)
+ *
+ * Converts an ordered list of pool stops into a GeoJSON FeatureCollection:
+ * one LineString for the route plus one Point per stop.
+ * GeoJSON coordinates are [longitude, latitude].
+ */
+export function poolRouteToGeoJSON(poolId: string, stops: PoolStop[]) {
+  const coordinates = stops.map((stop) => [Number(stop.longitude), Number(stop.latitude)]);
+
+  const routeFeature = {
+    type: 'Feature' as const,
+    geometry: {
+      type: 'LineString' as const,
+      coordinates,
+    },
+    properties: {
+      pool_id: poolId,
+      stop_count: stops.length,
+      total_distance_km:
+        stops.length > 0 ? Number(stops[stops.length - 1].cumulative_distance_km) : 0,
+    },
+  };
+
+  const stopFeatures = stops.map((stop, i) => ({
+    type: 'Feature' as const,
+    geometry: {
+      type: 'Point' as const,
+      coordinates: coordinates[i],
+    },
+    properties: {
+      stop_sequence: stop.stop_sequence,
+      stop_type: stop.stop_type,
+      ride_request_id: stop.ride_request_id,
+      planned_arrival_at: stop.planned_arrival_at,
+      cumulative_distance_km: Number(stop.cumulative_distance_km),
+    },
+  }));
+
+  return {
+    type: 'FeatureCollection' as const,
+    features: [routeFeature, ...stopFeatures],
+  };
+}
@@ -0,0 +1,86 @@
+import {
+  currencyExponent,
+  formatMinorUnits,
+  fromMinorUnits,
+  isCurrencyCode,
+  toMinorUnits,
+} from './money';
+
+/**
+ * Minor-unit conversion for currencies with 2, 0 and 3 decimals. Pure, no
+ * database.
+ */
+
+describe('money', () => {
+  it.each([
+    ['USD', 2],
+    ['EUR', 2],
+    ['JPY', 0],
+    ['KRW', 0],
+    ['KWD', 3],
+    ['BHD', 3],
+    ['usd', 2],
+  ])('gives %s %i minor-unit digits', (currency, exponent) => {
+    expect(currencyExponent(currency)).toBe(exponent);
+  });
+
+  it.each([
+    ['USD', 12.34, 1234],
+    ['USD', 0.005, 1],
+    ['USD', 1.005, 101],
+    ['USD', 0.1 + 0.2, 30],
+    ['USD', -2.345, -235],
+    ['JPY', 1234, 1234],
+    ['JPY', 2.5, 3],
+    ['JPY', -2.5, -3],
+    ['KWD', 1.2345, 1235],
+    ['KWD', 0.0005, 1],
+    ['KWD', 12.3, 12300],
+  ])('converts %s %d to %i minor units, half away from zero', (currency, amount, minor) => {
+    expect(toMinorUnits(amount, currency)).toBe(minor);
+  });
+
+  it.each([
+    ['USD', 1234, 12.34],
+    ['JPY', 1234, 1234],
+    ['KWD', 1235, 1.235],
+  ])('converts %s %i minor units back to %d', (currency, minor, amount) => {
+    expect(fromMinorUnits(minor, currency)).toBeCloseTo(amount, 9);
+  });
+
+  it.each([
+    ['USD', 12345, '123.45'],
+    ['USD', 5, '0.05'],
+    ['USD', 0, '0.00'],
+    ['USD', -1999, '-19.99'],
+    ['JPY', 12345, '12345'],
+    ['JPY', -7, '-7'],
+    ['KWD', 12345, '12.345'],
+    ['KWD', 5, '0.005'],
+    ['KWD', -1000, '-1.000'],
+  ])('formats %s %i as %s', (currency, minor, formatted) => {
+    expect(formatMinorUnits(minor, currency)).toBe(formatted);
+  });
+
+  it.each([
+    ['USD', 4.2],
+    ['JPY', 4200],
+    ['KWD', 1.234],
+  ])('round-trips %s %d through minor units and formatting', (currency, amount) => {
+    const minor = toMinorUnits(amount, currency);
+
+    expect(Number(formatMinorUnits(minor, currency))).toBe(amount);
+    expect(fromMinorUnits(minor, currency)).toBeCloseTo(amount, 9);
+  });
+
+  it.each([
+    ['USD', true],
+    ['KWD', true],
+    ['usd', false],
+    ['US', false],
+    ['US1', false],
+    ['', false],
+  ])('accepts %p as a currency code: %p', (currency, valid) => {
+    expect(isCurrencyCode(currency)).toBe(valid);
+  });
+});
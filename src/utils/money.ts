@@ -0,0 +1,72 @@
+/**
+ * MONEY IN MINOR UNITS
+ *
+ * Prices are integers in the currency's minor unit (cents for USD, yen for
+ * JPY, fils for KWD); the number of minor-unit digits comes from ISO 4217
+ * via Intl. Rates and configured fees stay in major units and are converted
+ * once, when a price line is computed.
+ *
+ * ROUNDING POLICY: each price line is rounded to the minor unit on its own
+ * (half away from zero); a total is always the sum of its rounded lines and
+ * is never rounded separately, so sum(lines) == total exactly.
+ *
+ * Time Complexity: O(1) per conversion
+ * Space Complexity: O(1)
+ */
+
+const exponentCache = new Map<string, number>();
+
+/**
+ * Minor-unit digits of a currency (2 for USD, 0 for JPY, 3 for KWD)
+ * Throws on a malformed currency code
+ */
+export function currencyExponent(currency: string): number {
+  const code = currency.toUpperCase();
+  let exponent = exponentCache.get(code);
+  if (exponent === undefined) {
+    exponent = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions()
+      .maximumFractionDigits;
+    exponentCache.set(code, exponent);
+  }
+  return exponent;
+}
+
+/**
+ * Major-unit amount → integer minor units, rounded half away from zero
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  const scaled = Number((amount * Math.pow(10, currencyExponent(currency))).toPrecision(12));
+  return Math.sign(scaled) * Math.round(Math.abs(scaled));
+}
+
+/**
+ * Integer minor units → major-unit amount
+ */
+export function fromMinorUnits(minor: number, currency: string): number {
+  return minor / Math.pow(10, currencyExponent(currency));
+}
+
+/**
+ * Minor units as a fixed-point string, e.g. 12345 USD → "123.45"
+ */
+export function formatMinorUnits(minor: number, currency: string): string {
+  const exponent = currencyExponent(currency);
+  const digits = Math.abs(minor).toString().padStart(exponent + 1, '0');
+  const major = exponent > 0 ? `${digits.slice(0, -exponent)}.${digits.slice(-exponent)}` : digits;
+  return minor < 0 ? `-${major}` : major;
+}
+
+/**
+ * Whether a currency code is well-formed (three uppercase letters) and accepted by Intl
+ */
+export function isCurrencyCode(currency: string): boolean {
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return false;
+  }
+  try {
+    currencyExponent(currency);
+    return true;
+  } catch {
+    return false;
+  }
+}
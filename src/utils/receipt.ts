@@ -0,0 +1,99 @@
+import { Receipt } from '../models/types';
+import { formatMinorUnits } from './money';
+
+/**
+ * RECEIPT RENDERING
+ *
+ * Time Complexity: O(l) where l is number of receipt lines
+ * Space Complexity: O(l)
+ *
+ * Plain-text and HTML renders of an itemized ride receipt. Amounts are
+ * shown in major units with the currency's own number of decimals;
+ * reductions are shown as negative amounts.
+ * Goodwill credits are listed after the total, since they are not part of
+ * what the ride was charged.
+ */
+
+const TEXT_WIDTH = 48;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export function renderReceiptText(receipt: Receipt): string {
+  const formatAmount = (amount: number) => formatMinorUnits(amount, receipt.currency);
+  const row = (label: string, amount: string) => {
+    const room = TEXT_WIDTH - amount.length - 1;
+    const text = label.length > room ? label.slice(0, room) : label;
+    return `${text.padEnd(room)} ${amount}`;
+  };
+  const rule = '-'.repeat(TEXT_WIDTH);
+
+  return [
+    'RIDE RECEIPT',
+    `Ride:   ${receipt.ride_request_id}`,
+    ...(receipt.pool_id ? [`Pool:   ${receipt.pool_id}`] : []),
+    `Status: ${receipt.ride_status}`,
+    `Issued: ${receipt.issued_at.toISOString()}`,
+    rule,
+    ...receipt.lines.map((line) => row(line.description, formatAmount(line.amount))),
+    rule,
+    row(`Total charged (${receipt.currency})`, formatAmount(receipt.total_charged)),
+    ...(receipt.credits_issued > 0
+      ? [row('Goodwill credits issued', formatAmount(receipt.credits_issued))]
+      : []),
+    '',
+  ].join('\n');
+}
+
+export function renderReceiptHtml(receipt: Receipt): string {
+  const formatAmount = (amount: number) => formatMinorUnits(amount, receipt.currency);
+  const rows = receipt.lines
+    .map(
+      (line) =>
+        `      <tr><td>${escapeHtml(line.description)}</td>` +
+        `<td class="amount">${formatAmount(line.amount)}</td></tr>`
+    )
+    .join('\n');
+  const total =
+    `      <tr><td>Total charged (${escapeHtml(receipt.currency)})</td>` +
+    `<td class="amount">${formatAmount(receipt.total_charged)}</td></tr>`;
+  const credits =
+    receipt.credits_issued > 0
+      ? `  <p>Goodwill credits issued: ${formatAmount(receipt.credits_issued)}</p>\n`
+      : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Ride receipt ${escapeHtml(receipt.ride_request_id)}</title>
+  <style>
+    body { font-family: sans-serif; max-width: 32em; }
+    td.amount { text-align: right; }
+    tfoot td { font-weight: bold; border-top: 1px solid #000; }
+  </style>
+</head>
+<body>
+  <h1>Ride receipt</h1>
+  <p>
+    Ride ${escapeHtml(receipt.ride_request_id)}<br>
+    Status: ${escapeHtml(receipt.ride_status)}<br>
+    Issued: ${receipt.issued_at.toISOString()}
+  </p>
+  <table>
+    <tbody>
+${rows}
+    </tbody>
+    <tfoot>
+${total}
+    </tfoot>
+  </table>
+${credits}</body>
+</html>
+`;
+}
@@ -0,0 +1,56 @@
+import { logger } from './logger';
+import { db } from './database/db';
+import { redis } from './database/redis';
+import { matchingWorker } from './jobs/matchingWorker';
+import { batchMatchingJob } from './jobs/batchMatchingJob';
+
+/**
+ * STANDALONE MATCHING WORKER
+ *
+ * Consumes the durable matching queue and runs batch matching outside the
+ * API process. Run with MATCHING_WORKER_IN_PROCESS=false on the API
+ * servers; any number of workers can run side by side (jobs are claimed
+ * with SKIP LOCKED, and one batch run holds an advisory lock at a time).
+ */
+
+async function start(): Promise<void> {
+  try {
+    await redis.connect();
+    logger.info('Redis connected');
+
+    const dbConnected = await db.healthCheck();
+    if (!dbConnected) {
+      throw new Error('Database connection failed');
+    }
+    logger.info('Database connected');
+
+    matchingWorker.start();
+    batchMatchingJob.start();
+  } catch (error) {
+    logger.error('Failed to start matching worker:', error);
+    process.exit(1);
+  }
+}
+
+async function shutdown(signal: string): Promise<void> {
+  logger.info(`Received ${signal}, stopping matching worker...`);
+
+  try {
+    batchMatchingJob.stop();
+    await matchingWorker.stop();
+    await db.close();
+    await redis.close();
+    logger.info('Matching worker stopped');
+    process.exit(0);
+  } catch (error) {
+    logger.error('Error during worker shutdown:', error);
+    process.exit(1);
+  }
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+if (require.main === module) {
+  start();
+}